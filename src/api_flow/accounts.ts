@@ -0,0 +1,112 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+
+const ACCOUNTS_FILE = path.resolve(__dirname, "../../accounts.json");
+const ACCOUNTS_DIR = path.resolve(__dirname, "../../accounts");
+
+// One entry per team member. Everything personal (profile, session, browser profile, ledger,
+// review queue, answer memory, reports) lives in accounts/<name>/ unless set in `config`.
+// Cookie import is per account too: COOKIES_FILE in `config`, never the one of config.txt.
+export interface AccountDefinition {
+    name: string; // Letters, digits, "-" and "_"
+    profile?: string; // Profile file, default accounts/<name>/profile.txt
+    config?: Record<string, string>; // config.txt keys overridden for this account
+}
+
+export interface AccountsFile {
+    accounts: AccountDefinition[];
+}
+
+export async function loadAccounts(filePath: string = ACCOUNTS_FILE): Promise<AccountDefinition[]> {
+    let data: string;
+    try {
+        data = await fs.readFile(filePath, "utf-8");
+    } catch (error: any) {
+        if (error.code === "ENOENT") {
+            throw new Error(`No accounts file at ${filePath}. Copy accounts.example.json to accounts.json to set up accounts.`);
+        }
+        throw error;
+    }
+    const parsed = JSON.parse(data) as AccountsFile;
+    if (!Array.isArray(parsed.accounts)) {
+        throw new Error(`Accounts file ${filePath} has no "accounts" array.`);
+    }
+    const names = new Set<string>();
+    for (const account of parsed.accounts) {
+        if (!/^[a-zA-Z0-9_-]+$/.test(account.name || "")) {
+            throw new Error(`Invalid account name "${account.name}" in ${filePath}: use letters, digits, "-" and "_".`);
+        }
+        if (names.has(account.name)) {
+            throw new Error(`Account "${account.name}" is defined twice in ${filePath}.`);
+        }
+        names.add(account.name);
+    }
+    return parsed.accounts;
+}
+
+/**
+ * Returns the accounts named in `names` (all of them when empty), in the order given.
+ */
+export function selectAccounts(accounts: AccountDefinition[], names: string[]): AccountDefinition[] {
+    if (names.length === 0) {
+        return accounts;
+    }
+    return names.map((name) => {
+        const account = accounts.find((a) => a.name === name);
+        if (!account) {
+            throw new Error(`Unknown account "${name}". Known accounts: ${accounts.map((a) => a.name).join(", ")}`);
+        }
+        return account;
+    });
+}
+
+/**
+ * Builds the config of one account: config.txt, then the account's own files in
+ * accounts/<name>/, then the account's `config` overrides. Creates the account directory.
+ * Optional outputs (RELEVANCE_CSV_FILE) stay off unless config.txt turns them on.
+ */
+export async function buildAccountConfig(
+    baseConfig: Record<string, string>,
+    account: AccountDefinition
+): Promise<Record<string, string>> {
+    const accountDir = path.join(ACCOUNTS_DIR, account.name);
+    await fs.mkdir(accountDir, { recursive: true });
+    const file = (name: string) => path.join(accountDir, name);
+    return {
+        ...baseConfig,
+        ACCOUNT_NAME: account.name,
+        PROFILE_FILE: account.profile ? path.resolve(account.profile) : file("profile.txt"),
+        SESSION_FILE: file("session.json"),
+        BROWSER_USER_DATA_DIR: file("chrome_profile"),
+        LEDGER_FILE: file("registration_ledger.json"),
+        REVIEW_QUEUE_FILE: file("review_queue.json"),
+        ANSWER_MEMORY_FILE: file("answer_memory.json"),
+        DRY_RUN_REPORT_FILE: file("dry_run_report.json"),
+        ICS_EXPORT_FILE: file("registrations.ics"),
+        RELEVANCE_REPORT_FILE: file("relevance_ranking.json"),
+        RELEVANCE_CSV_FILE: baseConfig["RELEVANCE_CSV_FILE"] ? file(path.basename(baseConfig["RELEVANCE_CSV_FILE"])) : "",
+        FILTER_REPORT_FILE: file("filter_report.json"),
+        PROFILE_TRANSLATIONS_FILE: file("profile_translations.json"),
+        STATUS_JSON_FILE: file("status_changes.jsonl"),
+        COOKIES_FILE: "",
+        ...(account.config || {}),
+    };
+}
+
+/**
+ * Applies `--account <name>` from the command line, so single-account commands (npm run api,
+ * status, review-queue, history, export-ics) can work on one account of accounts.json.
+ */
+export async function applyAccountArg(config: Record<string, string>): Promise<Record<string, string>> {
+    const argIndex = process.argv.indexOf("--account");
+    if (argIndex === -1) {
+        return config;
+    }
+    const name = process.argv[argIndex + 1];
+    if (!name) {
+        throw new Error("--account needs an account name.");
+    }
+    const [account] = selectAccounts(await loadAccounts(config["ACCOUNTS_FILE"] || undefined), [name]);
+    console.log(`Using account "${account.name}".`);
+    return buildAccountConfig(config, account);
+}
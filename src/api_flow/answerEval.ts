@@ -0,0 +1,145 @@
+import * as fs from "fs/promises";
+import {
+    AnswerConfidence,
+    APIEventContext,
+    APIRegistrationAnswer,
+    APIRegistrationQuestion,
+} from "./api_helper";
+import { AnswerValue, validateAnswer } from "./answerValidation";
+import { LLMUsageTotals } from "./llmUsage";
+
+// --- Answer Evaluation ---
+// Scores prepared registration answers against a golden dataset, so prompt and model changes
+// can be compared before switching models.
+
+export interface GoldenQuestion extends APIRegistrationQuestion {
+    expected?: AnswerValue; // The answer we want
+    acceptable?: AnswerValue[]; // Other answers that also count as a match
+}
+
+export interface GoldenCase {
+    name: string;
+    event_name: string;
+    event_context?: APIEventContext;
+    profile?: Record<string, string>; // Overrides the dataset profile for this case
+    questions: GoldenQuestion[];
+}
+
+export interface GoldenDataset {
+    profile?: Record<string, string>; // Defaults to profile.txt
+    cases: GoldenCase[];
+}
+
+export interface EvalScore {
+    matched: number;
+    comparable: number; // Questions with an expected or acceptable answer
+    valid: number;
+    withOptions: number; // Questions with options (dropdown, multi-select)
+    covered: number;
+    required: number;
+}
+
+export interface CaseEvalResult {
+    name: string;
+    score: EvalScore;
+    answers: APIRegistrationAnswer[];
+    mismatches: { label: string; expected: AnswerValue[]; actual: AnswerValue }[];
+    duration_ms: number;
+    llm_usage: LLMUsageTotals;
+}
+
+export async function loadGoldenDataset(filePath: string): Promise<GoldenDataset> {
+    const data = await fs.readFile(filePath, "utf-8");
+    const dataset = JSON.parse(data) as GoldenDataset;
+    if (!Array.isArray(dataset.cases)) {
+        throw new Error(`Golden dataset ${filePath} has no "cases" array.`);
+    }
+    return dataset;
+}
+
+function normalizeValue(value: AnswerValue): string {
+    if (Array.isArray(value)) {
+        return JSON.stringify(value.map((v) => String(v).trim().toLowerCase()).sort());
+    }
+    if (typeof value === "string") {
+        return value.trim().toLowerCase();
+    }
+    return String(value);
+}
+
+function isPlaceholder(answer: AnswerValue | undefined): boolean {
+    if (answer === null || answer === undefined) return true;
+    if (typeof answer === "string") return ["", "n/a"].includes(answer.trim().toLowerCase());
+    if (Array.isArray(answer)) return answer.length === 0;
+    return false;
+}
+
+export function emptyScore(): EvalScore {
+    return { matched: 0, comparable: 0, valid: 0, withOptions: 0, covered: 0, required: 0 };
+}
+
+export function addScores(a: EvalScore, b: EvalScore): EvalScore {
+    return {
+        matched: a.matched + b.matched,
+        comparable: a.comparable + b.comparable,
+        valid: a.valid + b.valid,
+        withOptions: a.withOptions + b.withOptions,
+        covered: a.covered + b.covered,
+        required: a.required + b.required,
+    };
+}
+
+/**
+ * Scores the answers of one case:
+ * - exact match: answer equals the expected or an acceptable answer (case and order insensitive)
+ * - option validity: choice answers exist in the options
+ * - required coverage: required questions got a real answer, not a default placeholder
+ */
+export function scoreCase(
+    goldenCase: GoldenCase,
+    answers: APIRegistrationAnswer[],
+    confidence: Record<string, AnswerConfidence>
+): Omit<CaseEvalResult, "duration_ms" | "llm_usage"> {
+    const score = emptyScore();
+    const mismatches: CaseEvalResult["mismatches"] = [];
+    const answersById = new Map(answers.map((a) => [a.question_id, a.answer]));
+
+    for (const question of goldenCase.questions) {
+        const actual = answersById.get(question.id) ?? null;
+
+        const targets = [
+            ...(question.expected !== undefined ? [question.expected] : []),
+            ...(question.acceptable || []),
+        ];
+        if (targets.length > 0) {
+            score.comparable++;
+            if (targets.some((t) => normalizeValue(t) === normalizeValue(actual))) {
+                score.matched++;
+            } else {
+                mismatches.push({ label: question.label, expected: targets, actual });
+            }
+        }
+
+        if (question.options && question.options.length > 0) {
+            score.withOptions++;
+            if (!validateAnswer(question, actual).issue) {
+                score.valid++;
+            }
+        }
+
+        if (question.required) {
+            score.required++;
+            if (!isPlaceholder(actual) && confidence[question.id]?.provenance !== "default") {
+                score.covered++;
+            }
+        }
+    }
+
+    return { name: goldenCase.name, score, answers, mismatches };
+}
+
+export function formatRatio(numerator: number, denominator: number): string {
+    if (denominator === 0) return "n/a";
+    return `${((numerator / denominator) * 100).toFixed(1)}% (${numerator}/${denominator})`;
+}
+// --- End Answer Evaluation ---
@@ -0,0 +1,182 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { callLLMForTranslation } from './llm';
+import { ProfileFieldQuestion, selectProfileFieldKeys } from './profileFields';
+
+// --- Answer Language ---
+// Detects the language registration questions are asked in, so free-text answers are written in
+// it. Profile values (job title, goals...) are translated once per language and kept in
+// profile_translations.json, so the same value reads the same on every form. A translation can be
+// fixed by hand with a "<key> (<code>)" line in profile.txt, e.g. "Job Title (fr): Ingénieure logiciel".
+
+export interface AnswerLanguage {
+    code: string; // ISO 639-1
+    name: string; // English name, used in the prompts
+}
+
+export const ENGLISH: AnswerLanguage = { code: 'en', name: 'English' };
+
+const LANGUAGES: Record<string, { name: string; words: string[] }> = {
+    en: {
+        name: 'English',
+        words: ['the', 'and', 'you', 'your', 'what', 'how', 'why', 'are', 'is', 'do', 'of', 'to', 'for', 'with', 'please', 'which', 'would', 'this', 'event', 'company', 'name'],
+    },
+    fr: {
+        name: 'French',
+        words: ['le', 'la', 'les', 'des', 'du', 'et', 'vous', 'votre', 'vos', 'quel', 'quelle', 'quels', 'quelles', 'est', 'pour', 'avec', 'dans', 'une', 'pourquoi', 'comment', 'êtes', 'qu', 'que', 'qui', 'sélectionnez', 'entreprise', 'poste', 'prénom', 'événement'],
+    },
+    es: {
+        name: 'Spanish',
+        words: ['el', 'los', 'las', 'y', 'usted', 'tu', 'su', 'qué', 'cuál', 'por', 'para', 'con', 'es', 'una', 'cómo', 'empresa', 'evento', 'nombre', 'seleccione'],
+    },
+    de: {
+        name: 'German',
+        words: ['der', 'die', 'das', 'und', 'sie', 'ihr', 'ihre', 'was', 'wie', 'ist', 'für', 'mit', 'ein', 'eine', 'warum', 'unternehmen', 'veranstaltung', 'bitte', 'wählen'],
+    },
+};
+
+// Fewer matching words than this and the questions are treated as English
+const MIN_LANGUAGE_WORDS = 2;
+
+// Identifiers and proper nouns, never translated
+const UNTRANSLATED_KEY = /name|email|e-mail|phone|company|organi[sz]ation|linkedin|twitter|github|telegram|website|url|handle/i;
+const LANGUAGE_VARIANT_KEY = /^(.+?)\s*\(([a-z]{2})\)$/i;
+
+let translationsFilePath: string | null = null;
+let profileTranslations: Record<string, Record<string, string>> = {}; // Language code -> source value -> translation
+
+export function languageFromCode(code: string): AnswerLanguage | null {
+    const language = LANGUAGES[code.toLowerCase()];
+    return language ? { code: code.toLowerCase(), name: language.name } : null;
+}
+
+/**
+ * Detects the language of a form from its question labels by counting common words of each
+ * supported language. Options are left out: they are often brand names or English anyway.
+ */
+export function detectQuestionLanguage(questions: { label: string }[]): AnswerLanguage {
+    const words = questions
+        .map(q => q.label.toLowerCase())
+        .join(' ')
+        .split(/[^\p{L}]+/u)
+        .filter(Boolean);
+
+    let best = ENGLISH;
+    let bestScore = 0;
+    let englishScore = 0;
+    for (const [code, language] of Object.entries(LANGUAGES)) {
+        const vocabulary = new Set(language.words);
+        const score = words.filter(w => vocabulary.has(w)).length;
+        if (code === 'en') englishScore = score;
+        if (score > bestScore) {
+            best = { code, name: language.name };
+            bestScore = score;
+        }
+    }
+    return bestScore >= MIN_LANGUAGE_WORDS && bestScore > englishScore ? best : ENGLISH;
+}
+
+/**
+ * Language to answer in: ANSWER_LANGUAGE (a language code) forces one, "auto" or unset detects
+ * it from the questions.
+ */
+export function resolveAnswerLanguage(questions: { label: string }[], config: Record<string, string>): AnswerLanguage {
+    const configured = (config['ANSWER_LANGUAGE'] || 'auto').trim().toLowerCase();
+    if (configured !== 'auto') {
+        const forced = languageFromCode(configured);
+        if (forced) return forced;
+        console.warn(`\x1b[33mUnknown ANSWER_LANGUAGE "${configured}", detecting the language instead.\x1b[0m`);
+    }
+    return detectQuestionLanguage(questions);
+}
+
+export async function loadProfileTranslations(config: Record<string, string> = {}): Promise<void> {
+    translationsFilePath = config['PROFILE_TRANSLATIONS_FILE'] || path.resolve(__dirname, '../../profile_translations.json');
+    try {
+        const data = await fs.readFile(translationsFilePath, 'utf8');
+        profileTranslations = JSON.parse(data);
+        console.log(`Loaded profile translations for ${Object.keys(profileTranslations).join(', ') || 'no language'} from ${translationsFilePath}.`);
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            profileTranslations = {};
+            return;
+        }
+        // Going on with no translations would overwrite the hand-corrected ones on the next save
+        throw new Error(
+            `Could not read profile translations ${translationsFilePath} (${error.message}). Fix or restore the file before running again.`
+        );
+    }
+}
+
+// Written to a temporary file renamed over the store, so an interrupted write never truncates it
+async function saveProfileTranslations(): Promise<void> {
+    if (!translationsFilePath) {
+        return; // Not loaded (evaluation runs), keep the translations in memory only
+    }
+    const tempPath = `${translationsFilePath}.tmp`;
+    try {
+        await fs.writeFile(tempPath, JSON.stringify(profileTranslations, null, 2), 'utf8');
+        await fs.rename(tempPath, translationsFilePath);
+    } catch (error) {
+        console.error('Error saving profile translations:', error);
+    }
+}
+
+function isTranslatable(key: string, value: string): boolean {
+    if (UNTRANSLATED_KEY.test(key)) return false;
+    if (/@|https?:\/\/|www\./i.test(value)) return false;
+    return /\p{L}{3,}/u.test(value);
+}
+
+/**
+ * Returns the profile with its values in the given language, without the "<key> (<code>)" lines.
+ * Values missing from the translation store are translated in one LLM call; if that call fails
+ * they stay as they are. Only the fields the questions would send to the LLM anyway are
+ * translated, never a PROFILE_NEVER_SHARE_KEYS one.
+ */
+export async function localizeProfile(
+    profileData: Record<string, string>,
+    language: AnswerLanguage,
+    questions: ProfileFieldQuestion[],
+    config: Record<string, string>
+): Promise<Record<string, string>> {
+    const profile: Record<string, string> = {};
+    const variants: Record<string, string> = {};
+    for (const [key, value] of Object.entries(profileData)) {
+        const variant = key.match(LANGUAGE_VARIANT_KEY);
+        if (variant && languageFromCode(variant[2])) {
+            if (variant[2].toLowerCase() === language.code) variants[variant[1].trim()] = value;
+        } else {
+            profile[key] = value;
+        }
+    }
+    if (language.code === ENGLISH.code) {
+        return profile;
+    }
+
+    const translations = (profileTranslations[language.code] = profileTranslations[language.code] || {});
+    const shared = new Set(selectProfileFieldKeys(questions, profile, config));
+    const missing = [...new Set(
+        Object.entries(profile)
+            .filter(([key, value]) => shared.has(key) && !variants[key] && isTranslatable(key, value) && !translations[value])
+            .map(([, value]) => value)
+    )];
+    if (missing.length > 0) {
+        const translated = await callLLMForTranslation(missing, language.name, config);
+        if (translated) {
+            missing.forEach((value, i) => {
+                if (typeof translated[i] === 'string' && translated[i].trim()) {
+                    translations[value] = translated[i].trim();
+                }
+            });
+            await saveProfileTranslations();
+        }
+    }
+
+    const localized: Record<string, string> = {};
+    for (const [key, value] of Object.entries(profile)) {
+        localized[key] = variants[key] || (isTranslatable(key, value) && translations[value]) || value;
+    }
+    return localized;
+}
+// --- End Answer Language ---
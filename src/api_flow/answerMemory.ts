@@ -0,0 +1,197 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { APIRegistrationAnswer, APIRegistrationQuestion } from './api_helper';
+
+// --- Answer Memory ---
+// Remembers answers that were actually submitted (or approved during review), keyed by
+// normalized question label and option set, so the same question gets the same answer
+// across every event of a calendar. Works like the selector cache of the selector flow.
+
+const DEFAULT_MEMORY_FILE_PATH = path.resolve(__dirname, '../../answer_memory.json');
+const DEFAULT_SIMILARITY_THRESHOLD = 0.8;
+// A similar label can still mean the opposite ("Are you looking to hire?" / "to be hired?"):
+// reworded matches get at most half their similarity, under the review queue's default minimum
+const SIMILAR_LABEL_CONFIDENCE_FACTOR = 0.5;
+
+export interface RememberedAnswer {
+    label: string;
+    question_type: string;
+    options?: string[];
+    answer: string | string[] | boolean;
+    updated_at: string;
+    uses: number; // How many submissions used this answer
+}
+
+export interface AnswerMemoryMatch {
+    remembered: RememberedAnswer;
+    answer: string | string[] | boolean; // Answer adapted to the new question's options
+    similarity: number; // 1 for an exact label match
+    confidence: number; // 1 for an exact label match, lower than the review minimum otherwise
+}
+
+let memoryFilePath = DEFAULT_MEMORY_FILE_PATH;
+let similarityThreshold = DEFAULT_SIMILARITY_THRESHOLD;
+let answerMemory: Record<string, RememberedAnswer> = {};
+
+// Only choices are remembered: free text ("Why do you want to attend?") is event specific, and
+// consent checkboxes are answered by the fallback rules anyway
+const REMEMBERED_TYPES = ['dropdown', 'select', 'multiselect', 'multi-select', 'checkbox'];
+const STOP_WORDS = new Set(['a', 'an', 'the', 'you', 'your', 'are', 'is', 'do', 'of', 'to', 'what', 'which', 'for', 'in', 'at', 'on', 'and', 'or', 'these', 'this', 'please', 'best']);
+
+export function normalizeLabel(label: string): string {
+    return label
+        .toLowerCase()
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+function optionsSignature(options?: string[]): string {
+    return (options || []).map(normalizeLabel).sort().join('|');
+}
+
+function memoryKey(label: string, options?: string[]): string {
+    return `${normalizeLabel(label)}::${optionsSignature(options)}`;
+}
+
+function bigrams(value: string): string[] {
+    const compact = value.replace(/ /g, '');
+    const result: string[] = [];
+    for (let i = 0; i < compact.length - 1; i++) {
+        result.push(compact.substring(i, i + 2));
+    }
+    return result;
+}
+
+function diceCoefficient(a: string[], b: string[]): number {
+    if (a.length === 0 || b.length === 0) return 0;
+    const counts = new Map<string, number>();
+    a.forEach(item => counts.set(item, (counts.get(item) || 0) + 1));
+    let intersection = 0;
+    for (const item of b) {
+        const count = counts.get(item) || 0;
+        if (count > 0) {
+            intersection++;
+            counts.set(item, count - 1);
+        }
+    }
+    return (2 * intersection) / (a.length + b.length);
+}
+
+/**
+ * Similarity between two labels in [0, 1]: the best of a word-level score (robust to
+ * reordering, ignores filler words) and a character bigram score (robust to small edits).
+ */
+export function labelSimilarity(a: string, b: string): number {
+    const normalizedA = normalizeLabel(a);
+    const normalizedB = normalizeLabel(b);
+    if (normalizedA === normalizedB) return 1;
+    const words = (value: string) => value.split(' ').filter(w => w && !STOP_WORDS.has(w));
+    return Math.max(
+        diceCoefficient(words(normalizedA), words(normalizedB)),
+        diceCoefficient(bigrams(normalizedA), bigrams(normalizedB))
+    );
+}
+
+export async function loadAnswerMemory(config: Record<string, string> = {}): Promise<void> {
+    memoryFilePath = config['ANSWER_MEMORY_FILE'] || DEFAULT_MEMORY_FILE_PATH;
+    similarityThreshold = config['ANSWER_MEMORY_SIMILARITY']
+        ? Number(config['ANSWER_MEMORY_SIMILARITY'])
+        : DEFAULT_SIMILARITY_THRESHOLD;
+    try {
+        const data = await fs.readFile(memoryFilePath, 'utf8');
+        answerMemory = JSON.parse(data);
+        console.log(`Loaded ${Object.keys(answerMemory).length} remembered answers from ${memoryFilePath}.`);
+    } catch (error: any) {
+        if (error.code === 'ENOENT') {
+            console.log('Answer memory file not found. A new one will be created.');
+            answerMemory = {};
+            return;
+        }
+        // Going on with an empty memory would overwrite every remembered answer on the next save
+        throw new Error(
+            `Could not read answer memory ${memoryFilePath} (${error.message}). Fix or restore the file before running again.`
+        );
+    }
+}
+
+// Written to a temporary file renamed over the memory, so an interrupted write never truncates it
+export async function saveAnswerMemory(): Promise<void> {
+    const tempPath = `${memoryFilePath}.tmp`;
+    try {
+        await fs.writeFile(tempPath, JSON.stringify(answerMemory, null, 2), 'utf8');
+        await fs.rename(tempPath, memoryFilePath);
+        console.log('Answer memory saved successfully.');
+    } catch (error) {
+        console.error('Error saving answer memory:', error);
+    }
+}
+
+/**
+ * Maps a remembered answer onto the options of a new question. Returns null if a
+ * remembered choice does not exist among the new options.
+ */
+function adaptToOptions(
+    answer: string | string[] | boolean,
+    options: string[] | undefined
+): string | string[] | boolean | null {
+    if (!options || options.length === 0 || typeof answer === 'boolean') return answer;
+    const findOption = (value: string) => options.find(o => normalizeLabel(o) === normalizeLabel(value));
+    if (Array.isArray(answer)) {
+        const mapped = answer.map(findOption);
+        return mapped.every(Boolean) ? (mapped as string[]) : null;
+    }
+    return findOption(answer) || null;
+}
+
+/**
+ * Finds a remembered answer for a choice question: first by exact label and option set, then,
+ * for required questions, by the most similar label above the similarity threshold. A similar
+ * label match gets a low confidence, so the answer is parked for review instead of submitted.
+ * Optional questions never use a similar label: they are not reviewed.
+ */
+export function findRememberedAnswer(question: APIRegistrationQuestion): AnswerMemoryMatch | null {
+    if (!REMEMBERED_TYPES.includes(question.question_type)) return null;
+
+    const exact = answerMemory[memoryKey(question.label, question.options)];
+    if (exact) {
+        const answer = adaptToOptions(exact.answer, question.options);
+        if (answer !== null) return { remembered: exact, answer, similarity: 1, confidence: 1 };
+    }
+    if (!question.required) return null;
+
+    let best: AnswerMemoryMatch | null = null;
+    for (const remembered of Object.values(answerMemory)) {
+        if (remembered.question_type !== question.question_type) continue;
+        const similarity = labelSimilarity(remembered.label, question.label);
+        if (similarity < similarityThreshold || (best && similarity <= best.similarity)) continue;
+        const answer = adaptToOptions(remembered.answer, question.options);
+        if (answer !== null) {
+            best = { remembered, answer, similarity, confidence: similarity * SIMILAR_LABEL_CONFIDENCE_FACTOR };
+        }
+    }
+    return best;
+}
+
+/**
+ * Stores the choice answers of a submitted registration. Placeholder answers are not remembered.
+ */
+export function rememberAnswers(questions: APIRegistrationQuestion[], answers: APIRegistrationAnswer[]): void {
+    for (const answer of answers) {
+        const question = questions.find(q => q.id === answer.question_id);
+        if (!question || !REMEMBERED_TYPES.includes(question.question_type)) continue;
+        if (answer.answer === 'N/A' || (Array.isArray(answer.answer) && answer.answer.length === 0)) continue;
+
+        const key = memoryKey(question.label, question.options);
+        answerMemory[key] = {
+            label: question.label,
+            question_type: question.question_type,
+            options: question.options,
+            answer: answer.answer,
+            updated_at: new Date().toISOString(),
+            uses: (answerMemory[key]?.uses || 0) + 1,
+        };
+    }
+}
+// --- End Answer Memory ---
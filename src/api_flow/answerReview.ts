@@ -0,0 +1,175 @@
+import readline from 'readline/promises';
+import { AnswerConfidence, APIRegistrationAnswer, APIRegistrationQuestion } from './api_helper';
+
+export type ReviewDecision =
+    | { action: 'submit'; answers: APIRegistrationAnswer[] }
+    | { action: 'skip' }
+    | { action: 'abort' };
+
+export function isReviewEnabled(config: Record<string, string>): boolean {
+    return process.argv.includes('--review') || (config['REVIEW_ANSWERS'] || '').toLowerCase() === 'true';
+}
+
+function isChoiceType(type: string): boolean {
+    return type === 'dropdown' || type === 'select';
+}
+
+function isMultiChoiceType(type: string): boolean {
+    return type === 'multiselect' || type === 'multi-select';
+}
+
+function isBooleanType(type: string): boolean {
+    return type === 'agree-check' || type === 'terms';
+}
+
+// Answers produced by the fallback paths of prepareRegistrationAnswers deserve a second look
+function looksLikeFallback(question: APIRegistrationQuestion | undefined, answer: APIRegistrationAnswer): boolean {
+    if (answer.answer === 'N/A') return true;
+    if (!question?.options || question.options.length === 0) return false;
+    if (isChoiceType(answer.question_type)) return answer.answer === question.options[0];
+    if (isMultiChoiceType(answer.question_type)) {
+        return Array.isArray(answer.answer) && answer.answer.length === 1 && answer.answer[0] === question.options[0];
+    }
+    return false;
+}
+
+function printAnswers(
+    questions: APIRegistrationQuestion[],
+    answers: APIRegistrationAnswer[],
+    confidence: Record<string, AnswerConfidence>,
+    minConfidence: number,
+    edited: Set<string>
+): void {
+    answers.forEach((answer, index) => {
+        const question = questions.find(q => q.id === answer.question_id);
+        const required = question?.required ? ' *' : '';
+        const score = edited.has(answer.question_id) ? undefined : confidence[answer.question_id];
+        let source = score ? `, ${score.provenance} ${score.confidence.toFixed(2)}` : '';
+        let flag = '';
+        if (edited.has(answer.question_id)) {
+            source = ', edited';
+        } else if (score && score.confidence < minConfidence) {
+            flag = '  \x1b[33m<- low confidence, please check\x1b[0m';
+        } else if (!score && looksLikeFallback(question, answer)) {
+            flag = '  \x1b[33m<- fallback, please check\x1b[0m';
+        }
+        console.log(`  [${index + 1}] ${answer.label}${required} (${answer.question_type}${source})`);
+        console.log(`      -> ${JSON.stringify(answer.answer)}${flag}`);
+    });
+}
+
+/**
+ * Parses what the user typed for a question, returning null if it is not a valid answer for its type.
+ */
+function parseEditedAnswer(
+    input: string,
+    answer: APIRegistrationAnswer,
+    question: APIRegistrationQuestion | undefined
+): string | string[] | boolean | null {
+    const options = question?.options || [];
+    const pickOption = (value: string): string | null => {
+        const index = Number(value);
+        if (Number.isInteger(index) && index >= 1 && index <= options.length) {
+            return options[index - 1];
+        }
+        return options.find(o => o.toLowerCase() === value.toLowerCase()) || null;
+    };
+
+    if (isBooleanType(answer.question_type)) {
+        if (['y', 'yes', 'true'].includes(input.toLowerCase())) return true;
+        if (['n', 'no', 'false'].includes(input.toLowerCase())) return false;
+        return null;
+    }
+    if (isChoiceType(answer.question_type) && options.length > 0) {
+        return pickOption(input);
+    }
+    if (isMultiChoiceType(answer.question_type) && options.length > 0) {
+        if (input === '') return [];
+        const picked = input.split(',').map(part => pickOption(part.trim()));
+        return picked.every(p => p !== null) ? (picked as string[]) : null;
+    }
+    return input;
+}
+
+async function editAnswer(
+    rl: readline.Interface,
+    answer: APIRegistrationAnswer,
+    question: APIRegistrationQuestion | undefined
+): Promise<boolean> {
+    const options = question?.options || [];
+    if (options.length > 0) {
+        options.forEach((option, index) => console.log(`      ${index + 1}. ${option}`));
+    }
+
+    let hint = 'new answer';
+    if (isBooleanType(answer.question_type)) hint = 'y/n';
+    else if (isChoiceType(answer.question_type) && options.length > 0) hint = 'option number or exact text';
+    else if (isMultiChoiceType(answer.question_type) && options.length > 0) hint = 'comma-separated option numbers, empty for none';
+
+    const input = (await rl.question(`    ${answer.label} (${hint}): `)).trim();
+    const parsed = parseEditedAnswer(input, answer, question);
+    if (parsed === null) {
+        console.warn('    Invalid answer for this question type. Keeping the previous answer.');
+        return false;
+    }
+    answer.answer = parsed;
+    return true;
+}
+
+/**
+ * Shows the prepared answers for an event in the terminal and lets the user accept them,
+ * edit single answers, skip the event or abort the whole run. Answers below `minConfidence`
+ * are highlighted.
+ */
+export async function reviewRegistrationAnswers(
+    eventName: string,
+    eventUrl: string,
+    questions: APIRegistrationQuestion[],
+    answers: APIRegistrationAnswer[],
+    confidence: Record<string, AnswerConfidence> = {},
+    minConfidence: number = 0.5
+): Promise<ReviewDecision> {
+    const edited = new Set<string>();
+    const reviewed = answers.map(a => ({ ...a, answer: Array.isArray(a.answer) ? [...a.answer] : a.answer }));
+    const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+
+    try {
+        while (true) {
+            console.log(`\n--- Review answers for "${eventName}" (${eventUrl}) ---`);
+            if (reviewed.length === 0) {
+                console.log('  This event has no registration questions.');
+            }
+            printAnswers(questions, reviewed, confidence, minConfidence, edited);
+
+            const command = (await rl.question('\n  [a]ccept, [e]dit <number>, [s]kip event, [q]uit run: ')).trim().toLowerCase();
+
+            if (command === 'a' || command === 'accept') {
+                return { action: 'submit', answers: reviewed };
+            }
+            if (command === 's' || command === 'skip') {
+                return { action: 'skip' };
+            }
+            if (command === 'q' || command === 'quit') {
+                return { action: 'abort' };
+            }
+
+            const editMatch = command.match(/^e(?:dit)?\s*(\d+)$/);
+            if (editMatch) {
+                const index = Number(editMatch[1]) - 1;
+                const answer = reviewed[index];
+                if (!answer) {
+                    console.warn(`  No answer number ${index + 1}.`);
+                    continue;
+                }
+                if (await editAnswer(rl, answer, questions.find(q => q.id === answer.question_id))) {
+                    edited.add(answer.question_id);
+                }
+                continue;
+            }
+
+            console.warn('  Unknown command.');
+        }
+    } finally {
+        rl.close();
+    }
+}
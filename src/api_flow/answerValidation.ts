@@ -0,0 +1,118 @@
+import { APIRegistrationQuestion } from './api_helper';
+
+// --- Answer Validation ---
+// Checks LLM answers against their question before they are submitted: choices must exist in
+// the options, booleans for consent checkboxes, a profile URL for LinkedIn. Harmless differences
+// (case, "true" as a string, missing https://) are fixed here, the rest is reported as an issue
+// so the answer can be sent back to the model for repair.
+
+export type AnswerValue = string | string[] | boolean | null;
+
+export interface AnswerValidationResult {
+    answer: AnswerValue; // Normalized answer (e.g. option with its exact casing)
+    issue: string | null; // Why the answer is invalid, null if it is valid
+}
+
+export interface InvalidAnswer {
+    index: number; // Index of the question in the list that was validated
+    question: APIRegistrationQuestion;
+    answer: AnswerValue;
+    issue: string;
+}
+
+const CHOICE_TYPES = ['dropdown', 'select'];
+const MULTI_CHOICE_TYPES = ['multiselect', 'multi-select'];
+const BOOLEAN_TYPES = ['agree-check', 'terms'];
+const LINKEDIN_URL = /^https?:\/\/([a-z]{2,3}\.)?linkedin\.com\/(in|company|pub)\/[^\s/?#]+\/?([?#]\S*)?$/i;
+
+function findOption(options: string[], value: string): string | undefined {
+    const normalized = value.trim().toLowerCase();
+    return options.find(o => o.trim().toLowerCase() === normalized);
+}
+
+function formatOptions(options: string[]): string {
+    return options.map(o => `"${o}"`).join(', ');
+}
+
+export function validateAnswer(question: APIRegistrationQuestion, answer: AnswerValue): AnswerValidationResult {
+    const type = question.question_type;
+    const options = question.options || [];
+
+    if (answer === null || answer === undefined) {
+        return { answer: null, issue: question.required ? 'Mandatory question has no answer' : null };
+    }
+
+    if (BOOLEAN_TYPES.includes(type)) {
+        if (typeof answer === 'boolean') return { answer, issue: null };
+        if (typeof answer === 'string' && ['true', 'false'].includes(answer.trim().toLowerCase())) {
+            return { answer: answer.trim().toLowerCase() === 'true', issue: null };
+        }
+        return { answer, issue: 'Answer must be a boolean (true or false)' };
+    }
+
+    if (CHOICE_TYPES.includes(type)) {
+        if (typeof answer !== 'string') {
+            return { answer, issue: `Answer must be a single option as a string, one of: ${formatOptions(options)}` };
+        }
+        if (options.length === 0) return { answer, issue: null };
+        const option = findOption(options, answer);
+        return option
+            ? { answer: option, issue: null }
+            : { answer, issue: `"${answer}" is not one of the options: ${formatOptions(options)}` };
+    }
+
+    if (MULTI_CHOICE_TYPES.includes(type)) {
+        const values = typeof answer === 'string' ? [answer] : answer;
+        if (!Array.isArray(values)) {
+            return { answer, issue: `Answer must be an array of options chosen from: ${formatOptions(options)}` };
+        }
+        if (options.length === 0) return { answer: values, issue: null };
+        const unknown = values.filter(v => typeof v !== 'string' || !findOption(options, v));
+        if (unknown.length > 0) {
+            return { answer, issue: `${unknown.map(v => `"${v}"`).join(', ')} not among the options: ${formatOptions(options)}` };
+        }
+        const selected = values.map(v => findOption(options, v) as string);
+        if (selected.length === 0 && question.required) {
+            return { answer: selected, issue: 'Mandatory question needs at least one option' };
+        }
+        return { answer: selected, issue: null };
+    }
+
+    if (typeof answer !== 'string') {
+        if (typeof answer === 'number') return { answer: String(answer), issue: null };
+        return { answer, issue: 'Answer must be a string' };
+    }
+
+    if (type === 'linkedin') {
+        const url = /^https?:\/\//i.test(answer.trim()) ? answer.trim() : `https://${answer.trim()}`;
+        return LINKEDIN_URL.test(url)
+            ? { answer: url, issue: null }
+            : { answer, issue: 'Answer must be a LinkedIn profile URL such as https://www.linkedin.com/in/username' };
+    }
+
+    if (question.required && answer.trim() === '') {
+        return { answer, issue: 'Mandatory question has an empty answer' };
+    }
+    return { answer, issue: null };
+}
+
+/**
+ * Validates answers given in question order. Valid answers are normalized in place in the
+ * returned array, invalid ones are listed separately with the reason.
+ */
+export function validateAnswers(
+    questions: APIRegistrationQuestion[],
+    answers: AnswerValue[]
+): { answers: AnswerValue[]; invalid: InvalidAnswer[] } {
+    const normalized: AnswerValue[] = [];
+    const invalid: InvalidAnswer[] = [];
+    questions.forEach((question, index) => {
+        const result = validateAnswer(question, answers[index]);
+        normalized.push(result.answer);
+        if (result.issue) {
+            invalid.push({ index, question, answer: answers[index], issue: result.issue });
+        }
+    });
+    return { answers: normalized, invalid };
+}
+// --- End Answer Validation ---
@@ -1,5 +1,17 @@
-import axios from 'axios';
-import { callLLMForApiAnswers } from './llm'; // Import the new LLM function
+import {
+    LumaCalendarEntryEvent,
+    LumaCalendarEntryHost,
+    LumaCalendarEntryRole,
+    LumaCalendarEntryTicketInfo,
+} from './calendarApi';
+import { callLLMForAnswerRepair, callLLMForApiAnswers } from './llm'; // Import the new LLM function
+import { validateAnswers } from './answerValidation';
+import { findRememberedAnswer } from './answerMemory';
+import { localizeProfile, resolveAnswerLanguage } from './answerLanguage';
+import { matchQuestionsToProfile } from './profileMatcher';
+import { loadPromptTemplate } from './promptTemplates';
+import { isLLMBudgetExceeded, LLMUsageTotals, summarizeUsage, usageRecordCount, usageSince } from './llmUsage';
+import { LumaClient, REGISTRATION_API_URL } from './lumaClient';
 
 // Types for API responses (can be refined based on actual Luma API docs if available)
 export interface APIRegistrationQuestion {
@@ -27,9 +39,34 @@ export interface APIEventDetails {
     name: string;
     registration_questions: APIRegistrationQuestion[];
     ticket_types: APITicketType[];
+    // The following are only present in some responses, or only when authenticated (role)
+    event?: LumaCalendarEntryEvent;
+    hosts?: LumaCalendarEntryHost[];
+    ticket_info?: LumaCalendarEntryTicketInfo;
+    role?: LumaCalendarEntryRole;
+    description_mirror?: LumaDescriptionNode | null; // Event description as a ProseMirror document
+    categories?: { api_id?: string; name: string }[];
+    tags?: { api_id?: string; name: string }[];
+    context?: APIEventContext; // Set by fetchEventDetails from the fields above
     // Add other relevant event detail properties
 }
 
+export interface LumaDescriptionNode {
+    type: string;
+    text?: string;
+    content?: LumaDescriptionNode[];
+}
+
+// What the answer prompt needs to know about an event, flattened from the raw API fields
+export interface APIEventContext {
+    description: string | null; // Plain text
+    hosts: string[];
+    location: string | null;
+    start_at: string | null; // ISO date (UTC)
+    timezone: string | null;
+    tags: string[];
+}
+
 export interface APIRegistrationAnswer {
     question_id: string;
     question_type: string;
@@ -37,18 +74,43 @@ export interface APIRegistrationAnswer {
     answer: string | string[] | boolean;
 }
 
+// Where an answer came from: profile.txt, the answer memory, the LLM, or a default fallback
+export type AnswerProvenance = 'profile' | 'memory' | 'inferred' | 'default';
+
+export interface AnswerConfidence {
+    provenance: AnswerProvenance;
+    confidence: number; // 0 (placeholder) to 1 (read from the profile)
+}
+
+export interface PreparedRegistrationAnswers {
+    answers: APIRegistrationAnswer[];
+    confidence: Record<string, AnswerConfidence>; // Keyed by question id
+    prompt_versions: Record<string, string>; // Version of each prompt template used, keyed by template name
+    llm_usage: LLMUsageTotals; // Tokens and cost of the LLM calls made for these answers
+}
+
+// Body of the POST to REGISTRATION_API_URL, mirroring what the Luma web client sends
+export interface APIRegistrationPayload {
+    event_api_id: string;
+    name: string;
+    first_name: string;
+    last_name: string;
+    email: string;
+    phone_number: string;
+    ticket_type_to_selection: Record<string, { count: number; amount: number }>;
+    registration_answers: APIRegistrationAnswer[];
+    for_waitlist: boolean;
+    timezone: string;
+    [key: string]: any; // Remaining fields are always null/0 for free tickets
+}
+
 /**
  * Fetches the HTML of a Luma event page and extracts the event_api_id.
  */
-export async function getEventApiIdFromUrl(eventPageUrl: string): Promise<string | null> {
+export async function getEventApiIdFromUrl(eventPageUrl: string, client: LumaClient): Promise<string | null> {
     console.log(`Fetching event page HTML from: ${eventPageUrl}`);
     try {
-        const response = await axios.get(eventPageUrl, {
-            headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36'
-            }
-        });
-        const html = response.data;
+        const html = await client.getPage(eventPageUrl);
 
         const nextDataRegex = /<script id="__NEXT_DATA__" type="application\/json">([^<]+)<\/script>/;
         const nextDataMatch = html.match(nextDataRegex);
@@ -98,39 +160,170 @@ export async function getEventApiIdFromUrl(eventPageUrl: string): Promise<string
 /**
  * Fetches detailed event information from Luma's API.
  */
-export async function fetchEventDetails(eventApiId: string): Promise<APIEventDetails | null> {
-    const apiUrl = `https://api.luma.com/event/get?event_api_id=${eventApiId}`;
-    console.log(`Fetching event details from: ${apiUrl}`);
+export async function fetchEventDetails(eventApiId: string, client: LumaClient): Promise<APIEventDetails | null> {
+    console.log(`Fetching event details for: ${eventApiId}`);
+    // With cookies the response includes our role (approval status) for the event
     try {
-        const response = await axios.get<APIEventDetails>(apiUrl, {
-            headers: {
-                'Accept': 'application/json',
-            }
-        });
-        return response.data;
+        const details = await client.getEvent(eventApiId);
+        return { ...details, context: buildEventContext(details) };
     } catch (error) {
         console.error(`Error fetching event details for ${eventApiId}:`, error);
         return null;
     }
 }
 
+// Block nodes end with a line break so paragraphs and list items stay separated
+function descriptionToText(node: LumaDescriptionNode): string {
+    if (node.type === 'text') return node.text || '';
+    if (node.type === 'hard_break') return '\n';
+    const text = (node.content || []).map(descriptionToText).join('');
+    return ['paragraph', 'heading', 'list_item'].includes(node.type) ? `${text}\n` : text;
+}
+
 /**
- * Prepares the answers for the registration questions based on user profile and LLM.
- * (This is a STUB - full implementation needed)
+ * Flattens the description, hosts, location, start time and tags of an event/get response.
+ */
+export function buildEventContext(details: APIEventDetails): APIEventContext {
+    const event = details.event;
+    const geo = event?.geo_address_info;
+    let location: string | null = null;
+    if (geo) {
+        location = geo.full_address || geo.address || [geo.city, geo.country].filter(Boolean).join(', ') || null;
+    } else if (event?.location_type === 'online') {
+        location = 'Online';
+    }
+
+    const description = details.description_mirror
+        ? descriptionToText(details.description_mirror).replace(/\n{3,}/g, '\n\n').trim()
+        : '';
+
+    return {
+        description: description || null,
+        hosts: (details.hosts || []).map(h => h.name).filter(Boolean),
+        location,
+        start_at: event?.start_at || null,
+        timezone: event?.timezone || null,
+        tags: [...(details.categories || []), ...(details.tags || [])].map(t => t.name).filter(Boolean),
+    };
+}
+
+const MAX_REPAIR_ROUNDS = 2;
+
+// Confidence of LLM answers; memory answers set their own (low for a similar label), profile answers are always 1
+const INFERRED_CONFIDENCE = 0.8;
+const REPAIRED_CONFIDENCE = 0.6; // The first answer did not fit the question
+const NOT_AVAILABLE_CONFIDENCE = 0.2; // The LLM answered "N/A" itself
+
+// Consent checkboxes only have one acceptable answer, so their default is as good as any answer
+function defaultConfidence(q: APIRegistrationQuestion): AnswerConfidence {
+    const isConsent = q.question_type === 'agree-check' || q.question_type === 'terms';
+    return { provenance: 'default', confidence: isConsent && q.required ? 1 : 0 };
+}
+
+/**
+ * Validates the LLM answers against their questions and sends the invalid ones back to the
+ * model in a repair prompt. Answers still invalid after the repair rounds are set to null,
+ * so the usual mandatory/optional defaults apply to them.
+ */
+async function validateAndRepairAnswers(
+    questions: APIRegistrationQuestion[],
+    answers: (string | string[] | boolean | null)[],
+    profileData: Record<string, string>,
+    eventName: string,
+    llmConfig: Record<string, string>,
+    eventContext: APIEventContext | null,
+    promptVersions: Record<string, string>,
+    language: string
+): Promise<{ answers: (string | string[] | boolean | null)[]; repaired: Set<number> }> {
+    let validation = validateAnswers(questions, answers);
+    const initiallyInvalid = new Set(validation.invalid.map(item => item.index));
+    for (let round = 1; round <= MAX_REPAIR_ROUNDS && validation.invalid.length > 0; round++) {
+        console.warn(`  ${validation.invalid.length} invalid LLM answer(s), repair round ${round}/${MAX_REPAIR_ROUNDS}:`);
+        validation.invalid.forEach(item => console.warn(`    - "${item.question.label}": ${item.issue}`));
+
+        promptVersions['answer_repair'] = (await loadPromptTemplate('answer_repair', llmConfig)).version;
+        const repaired = await callLLMForAnswerRepair(validation.invalid, profileData, eventName, llmConfig, eventContext, language);
+        if (!repaired) {
+            break;
+        }
+        const merged = [...validation.answers];
+        validation.invalid.forEach((item, i) => {
+            merged[item.index] = repaired[i];
+        });
+        validation = validateAnswers(questions, merged);
+    }
+
+    const finalAnswers = [...validation.answers];
+    for (const item of validation.invalid) {
+        console.warn(`  Answer for "${item.question.label}" is still invalid (${item.issue}). Applying default.`);
+        finalAnswers[item.index] = null;
+        initiallyInvalid.delete(item.index);
+    }
+    return { answers: finalAnswers, repaired: initiallyInvalid };
+}
+
+/**
+ * Prepares the answers for the registration questions based on user profile, answer memory and LLM.
+ * Each answer comes with its provenance and a confidence score.
  */
 export async function prepareRegistrationAnswers(
     questions: APIRegistrationQuestion[], 
     profileData: Record<string, string>,
     eventName: string, 
-    llmConfig: Record<string, string>
-): Promise<APIRegistrationAnswer[]> {
-    console.log('Preparing registration answers using LLM (sequential mode)...');
+    llmConfig: Record<string, string>,
+    eventContext: APIEventContext | null = null
+): Promise<PreparedRegistrationAnswers> {
+    console.log('Preparing registration answers (profile matching, then LLM in sequential mode)...');
+    const confidence: Record<string, AnswerConfidence> = {};
+    const promptVersions: Record<string, string> = {};
+    const usageStart = usageRecordCount();
+
+    // Answers are written in the language of the form, with the profile values translated to it
+    const language = resolveAnswerLanguage(questions, llmConfig);
+    if (language.code !== 'en') {
+        console.log(`  Questions are in ${language.name}, answering in ${language.name}.`);
+        promptVersions['profile_translation'] = (await loadPromptTemplate('profile_translation', llmConfig)).version;
+    }
+    const profile = await localizeProfile(
+        profileData,
+        language,
+        questions.map(q => ({ label: q.label, type: q.question_type, options: q.options })),
+        llmConfig
+    );
+
+    // Questions the profile answers directly never reach the LLM
+    const profileMatches = matchQuestionsToProfile(questions, profile);
+    profileMatches.forEach(match => {
+        const q = questions.find(question => question.id === match.questionId);
+        console.log(`  Answered from profile (${match.rule}, key "${match.profileKey}"): "${q?.label}" -> ${JSON.stringify(match.answer)}`);
+        confidence[match.questionId] = { provenance: 'profile', confidence: 1 };
+    });
+
+    // Then questions answered the same way for earlier events
+    const memoryAnswers = new Map<string, string | string[] | boolean>();
+    for (const q of questions.filter(question => !profileMatches.has(question.id))) {
+        const match = findRememberedAnswer(q);
+        if (match) {
+            memoryAnswers.set(q.id, match.answer);
+            confidence[q.id] = { provenance: 'memory', confidence: match.confidence };
+            const similarity = match.similarity < 1 ? ` (similar to "${match.remembered.label}", ${match.similarity.toFixed(2)})` : '';
+            console.log(`  Answered from memory${similarity}: "${q.label}" -> ${JSON.stringify(match.answer)}`);
+        }
+    }
+
+    const llmQuestions = questions.filter(q => !profileMatches.has(q.id) && !memoryAnswers.has(q.id));
+    console.log(`  ${profileMatches.size} question(s) answered from profile, ${memoryAnswers.size} from memory, ${llmQuestions.length} left for the LLM.`);
+
     const preparedAnswers: APIRegistrationAnswer[] = [];
     const maxLlmRetries = 3; // Max attempts for LLM call if answer count mismatches
     let llmAttempt = 0;
     let llmSequentialAnswers: (string | string[] | boolean | null)[] | null = null;
 
-    const questionsForLLM = questions.map(q => ({
+    if (llmQuestions.length > 0) {
+        promptVersions['answers'] = (await loadPromptTemplate('answers', llmConfig)).version;
+    }
+
+    const questionsForLLM = llmQuestions.map(q => ({
         id: q.id,
         label: q.label,
         type: q.question_type,
@@ -138,31 +331,42 @@ export async function prepareRegistrationAnswers(
         isMandatory: q.required
     }));
 
-    while (llmAttempt < maxLlmRetries && (!llmSequentialAnswers || llmSequentialAnswers.length !== questions.length)) {
+    while (llmAttempt < maxLlmRetries && !isLLMBudgetExceeded(llmConfig) && (!llmSequentialAnswers || llmSequentialAnswers.length !== llmQuestions.length)) {
         llmAttempt++;
         if (llmAttempt > 1) {
             console.warn(`LLM answer count mismatch or null response. Retrying LLM call (Attempt ${llmAttempt}/${maxLlmRetries})...`);
             await new Promise(resolve => setTimeout(resolve, 2000 * llmAttempt)); // Simple increasing delay
         }
-        llmSequentialAnswers = await callLLMForApiAnswers(questionsForLLM, profileData, eventName, llmConfig);
-        if (llmSequentialAnswers && llmSequentialAnswers.length !== questions.length && questions.length > 0) {
-            console.warn(`LLM returned ${llmSequentialAnswers.length} answers, but ${questions.length} were expected.`);
+        llmSequentialAnswers = await callLLMForApiAnswers(questionsForLLM, profile, eventName, llmConfig, eventContext, language.name);
+        if (llmSequentialAnswers && llmSequentialAnswers.length !== llmQuestions.length && llmQuestions.length > 0) {
+            console.warn(`LLM returned ${llmSequentialAnswers.length} answers, but ${llmQuestions.length} were expected.`);
             // If it's the last attempt and still mismatched, set to null to trigger full fallback
             if (llmAttempt === maxLlmRetries) llmSequentialAnswers = null; 
         }
     }
 
-    if (llmSequentialAnswers && llmSequentialAnswers.length === questions.length) {
+    let repairedIndexes = new Set<number>();
+    if (llmSequentialAnswers && llmSequentialAnswers.length === llmQuestions.length) {
+        const validated = await validateAndRepairAnswers(llmQuestions, llmSequentialAnswers, profile, eventName, llmConfig, eventContext, promptVersions, language.name);
+        llmSequentialAnswers = validated.answers;
+        repairedIndexes = validated.repaired;
+    }
+
+    if (llmSequentialAnswers && llmSequentialAnswers.length === llmQuestions.length) {
         console.log('LLM returned sequential answers. Mapping to questions...');
-        for (let i = 0; i < questions.length; i++) {
-            const q = questions[i];
+        for (let i = 0; i < llmQuestions.length; i++) {
+            const q = llmQuestions[i];
             let llmAnswer = llmSequentialAnswers[i];
             let finalAnswerValue: string | string[] | boolean | null = null;
 
             if (llmAnswer !== null && llmAnswer !== undefined) {
                 finalAnswerValue = llmAnswer;
+                let score = repairedIndexes.has(i) ? REPAIRED_CONFIDENCE : INFERRED_CONFIDENCE;
+                if (llmAnswer === 'N/A') score = NOT_AVAILABLE_CONFIDENCE;
+                confidence[q.id] = { provenance: 'inferred', confidence: score };
             } else if (q.required) {
                 console.warn(`LLM did not provide a valid answer for mandatory question (index ${i}): "${q.label}". Applying mandatory default.`);
+                confidence[q.id] = defaultConfidence(q);
                 if (q.question_type === 'agree-check' || q.question_type === 'terms') {
                     finalAnswerValue = true;
                 } else if ((q.question_type === 'dropdown' || q.question_type === 'select') && q.options && q.options.length > 0) {
@@ -175,6 +379,7 @@ export async function prepareRegistrationAnswers(
             } else {
                 // Optional question and LLM didn't provide a usable answer or it was null/undefined
                 console.warn(`LLM did not provide a valid answer for optional question (index ${i}): "${q.label}". Applying optional default.`);
+                confidence[q.id] = defaultConfidence(q);
                 if (q.question_type === 'agree-check' || q.question_type === 'terms') {
                     finalAnswerValue = false; 
                 } else if (q.question_type === 'multiselect' || q.question_type === 'multi-select') {
@@ -205,11 +410,12 @@ export async function prepareRegistrationAnswers(
     } else {
         // Fallback: LLM call failed, returned null, or array length mismatch
         const reason = !llmSequentialAnswers ? "LLM call failed or returned null after retries" 
-                     : `LLM answer count (${llmSequentialAnswers.length}) still mismatched with question count (${questions.length}) after retries`;
+                     : `LLM answer count (${llmSequentialAnswers.length}) still mismatched with question count (${llmQuestions.length}) after retries`;
         console.warn(`${reason}. Falling back to basic N/A or first option/default for mandatory fields.`);
         
-        for (const q of questions) {
+        for (const q of llmQuestions) {
             let answerValue: string | string[] | boolean = 'N/A'; // General default for non-processed
+            confidence[q.id] = defaultConfidence(q);
             if (q.required) {
                 console.warn(`Fallback for mandatory question: "${q.label}" (type: ${q.question_type}) due to earlier LLM failure/mismatch.`);
                 if (q.question_type === 'agree-check' || q.question_type === 'terms') {
@@ -240,16 +446,82 @@ export async function prepareRegistrationAnswers(
         }
     }
 
-    console.log('Prepared answers (sequentially from LLM or fallback):', JSON.stringify(preparedAnswers, null, 2));
-    return preparedAnswers;
+    // Merge profile, memory and LLM answers back into the original question order
+    const llmAnswersById = new Map(preparedAnswers.map(a => [a.question_id, a]));
+    const finalAnswers: APIRegistrationAnswer[] = [];
+    for (const q of questions) {
+        const presetAnswer = profileMatches.get(q.id)?.answer ?? memoryAnswers.get(q.id);
+        const answer = presetAnswer !== undefined
+            ? { question_id: q.id, question_type: q.question_type, label: q.label, answer: presetAnswer }
+            : llmAnswersById.get(q.id);
+        if (answer) {
+            finalAnswers.push(answer);
+        }
+    }
+
+    console.log('Prepared answers (from profile, memory, LLM or fallback):', JSON.stringify(finalAnswers, null, 2));
+    return {
+        answers: finalAnswers,
+        confidence,
+        prompt_versions: promptVersions,
+        llm_usage: summarizeUsage(usageSince(usageStart)),
+    };
+}
+
+/**
+ * Builds the registration payload for a free ticket from the user profile and prepared answers.
+ */
+export function buildRegistrationPayload(
+    eventApiId: string,
+    ticket: APITicketType,
+    registrationAnswers: APIRegistrationAnswer[],
+    profile: Record<string, string>
+): APIRegistrationPayload {
+    return {
+        event_api_id: eventApiId,
+        name: `${profile['Name']}`,
+        first_name: profile['First Name'] || profile['Name']?.split(' ')[0] || '',
+        last_name: profile['Last Name'] || profile['Name']?.split(' ').slice(1).join(' ') || '',
+        email: profile['Email'],
+        phone_number: profile['WhatsApp'] || profile['Phone'],
+        ticket_type_to_selection: {
+            [ticket.api_id]: { count: 1, amount: 0 },
+        },
+        registration_answers: registrationAnswers,
+        for_waitlist: false,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        coupon_code: null,
+        currency: null,
+        eth_address_info: null,
+        event_invite_api_id: null,
+        expected_amount_cents: 0,
+        expected_amount_discount: 0,
+        expected_amount_tax: 0,
+        opened_from: null,
+        payment_currency: null,
+        payment_method: null,
+        solana_address: null,
+        solana_address_info: null,
+        token_gate_info: null,
+    };
+}
+
+/**
+ * Reads our approval status (approved, pending_approval, waitlist...) from a registration response.
+ */
+export function extractApprovalStatus(registrationResponse: any): string | null {
+    const status =
+        registrationResponse?.approval_status ||
+        registrationResponse?.guest?.approval_status ||
+        registrationResponse?.role?.approval_status;
+    return typeof status === 'string' ? status : null;
 }
 
 /**
  * Submits the event registration via API.
  */
-export async function submitRegistration(payload: any, cookieString: string | null, eventPageUrl: string, headersOverride?: Record<string,string>): Promise<any | null> {
-    const apiUrl = 'https://api2.luma.com/event/register';
-    console.log(`Submitting registration to: ${apiUrl}`);
+export async function submitRegistration(payload: APIRegistrationPayload, client: LumaClient, eventPageUrl: string, headersOverride?: Record<string,string>): Promise<any | null> {
+    console.log(`Submitting registration to: ${REGISTRATION_API_URL}`);
     // Avoid logging full payload if it's very large or contains sensitive repeated info from profile
     // console.log('Payload:', JSON.stringify(payload, null, 2)); 
     console.log('Submitting payload for event_api_id:', payload.event_api_id);
@@ -259,77 +531,21 @@ export async function submitRegistration(payload: any, cookieString: string | nu
     console.log(`  Adding human-like delay before submission: ${preDelay}ms`);
     await new Promise(resolve => setTimeout(resolve, preDelay));
 
-    const headers: Record<string, string> = {
-        'authority': 'api2.luma.com',
-        'accept': '*/*',
-        'accept-encoding': 'gzip, deflate, br, zstd',
-        'accept-language': 'en',
-        'content-type': 'application/json',
-        'origin': 'https://luma.com',
-        'priority': 'u=1, i',
-        'referer': eventPageUrl, // Dynamic referer based on the event page
-        // Include non-pseudo equivalents for HTTP/2 pseudo-headers. Note: true pseudo-headers
-        // like ':method' cannot be set via Axios (http/1.1). We include their equivalents
-        // to match observed browser requests as closely as possible.
-        'method': 'POST',
-        'path': '/event/register',
-        'scheme': 'https',
-        'sec-ch-ua': '"Chromium";v="142", "Google Chrome";v="142", "Not_A Brand";v="99"',
-        'sec-ch-ua-mobile': '?0',
-        'sec-ch-ua-platform': '"macOS"',
-        'sec-fetch-dest': 'empty',
-        'sec-fetch-mode': 'cors',
-        'sec-fetch-site': 'same-site',
-        'user-agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/142.0.0.0 Safari/537.36',
-        'x-luma-client-type': 'luma-web',
-        'x-luma-client-version': 'b28c5f9b1aa7e8fed961add97128fc95149d0c7d',
-        'x-luma-web-url': eventPageUrl // Dynamic based on the event page being registered for
-    };
-
-    // Use the dynamically provided cookie string from the browser context.
-    // If it's missing, log a warning, as the request will likely fail without authentication.
-    if (cookieString) {
-        headers['cookie'] = cookieString;
-    } else {
-        console.warn('  Warning: No cookieString provided to submitRegistration. The request will likely fail.');
-        // Consider throwing an error if a cookie is absolutely required.
-        // throw new Error('Registration requires a valid cookie string.');
+    // The request will likely fail without the session cookies
+    if (!client.hasCookies) {
+        console.warn('  Warning: No cookies in the Luma client for submitRegistration. The request will likely fail.');
     }
 
-    // Compute and set Content-Length to match the JSON payload the browser would send.
-    // Axios/node will set this automatically, but some servers compare the exact header.
     try {
-        const payloadString = JSON.stringify(payload);
-        const contentLength = Buffer.byteLength(payloadString, 'utf8');
-        headers['content-length'] = String(contentLength);
-    } catch (e) {
-        // If serialization fails for any reason, don't block — let Axios compute it.
-        console.warn('Failed to compute content-length for registration payload, proceeding without explicit header.', e);
-    }
-
-    // If caller provided header overrides (e.g., exact captured browser headers), merge them in.
-    if (headersOverride && typeof headersOverride === 'object') {
-        for (const k of Object.keys(headersOverride)) {
-            // Do not allow overriding the forced cookie header
-            if (k.toLowerCase() === 'cookie') continue;
-            headers[k] = headersOverride[k];
-        }
-    }
-
-    try {
-        const response = await axios.post(apiUrl, payload, {
-            headers,
-            timeout: 30000 // 30 second timeout
-        });
-        console.log('Registration API response status:', response.status);
-        console.log('Registration API response data:', response.data);
+        const data = await client.register(payload, eventPageUrl, headersOverride);
+        console.log('Registration API response data:', data);
         
         // Add delay after successful submission
         const postDelay = Math.floor(Math.random() * 2000) + 1000;
         console.log(`  Adding post-submission delay: ${postDelay}ms`);
         await new Promise(resolve => setTimeout(resolve, postDelay));
         
-        return response.data;
+        return data;
     } catch (error: any) {
         console.error('Error submitting registration:');
         if (error.response) {
@@ -6,8 +6,10 @@ interface BrowserConfig {
     userDataDir: string;
 }
 
-export function getBrowserConfig(browserType: string): BrowserConfig {
-    const userDataDir = path.resolve(__dirname, "../playwright_chrome_profile");
+export function getBrowserConfig(browserType: string, userDataDirOverride?: string): BrowserConfig {
+    const userDataDir = userDataDirOverride
+        ? path.resolve(userDataDirOverride)
+        : path.resolve(__dirname, "../playwright_chrome_profile");
 
     const paths: Record<string, Record<string, string>> = {
         darwin: { // macOS
@@ -0,0 +1,330 @@
+import { LumaClient, LumaPageParams } from "./lumaClient";
+
+// --- Luma Calendar API Types ---
+export interface LumaGeoAddressInfo {
+    city?: string;
+    city_state?: string;
+    country?: string;
+    address?: string;
+    full_address?: string;
+}
+
+export interface LumaCalendarEntryEvent {
+    api_id: string;
+    name: string;
+    url: string; // This is the event slug
+    start_at?: string; // ISO date (UTC)
+    end_at?: string; // ISO date (UTC)
+    timezone?: string; // IANA timezone of the event, e.g. Europe/Paris
+    location_type?: string; // e.g. 'offline', 'online'
+    geo_address_info?: LumaGeoAddressInfo | null;
+    // Add other event fields if needed from the provided JSON
+}
+
+export interface LumaCalendarEntryTicketInfo {
+    require_approval?: boolean;
+    is_free?: boolean;
+    is_sold_out?: boolean;
+    // Add other relevant fields from ticket_info if needed
+}
+
+export interface LumaCalendarEntryHost {
+    api_id: string;
+    name: string;
+    username?: string | null;
+}
+
+export interface LumaCalendarEntryRole {
+    approval_status?: string;
+    // Add other role fields if needed, e.g., type
+}
+
+export interface LumaCalendarEntry {
+    api_id: string; // Calendar Event ID (calev-...)
+    event: LumaCalendarEntryEvent;
+    status?: string; // General status of the calendar entry (might be different from your role)
+    ticket_info?: LumaCalendarEntryTicketInfo;
+    role?: LumaCalendarEntryRole; // User-specific role and approval status for this calendar event
+    hosts?: LumaCalendarEntryHost[];
+    sources?: string[]; // Configured source URLs that found this event (set by eventSources.ts)
+    // Add other entry fields if needed
+}
+
+export interface LumaCalendarApiResponse {
+    entries: LumaCalendarEntry[];
+    has_more: boolean;
+    next_cursor?: string;
+}
+// --- End Luma Calendar API Types ---
+
+// --- Fetch All Event Entries from Luma Calendar API ---
+export async function fetchAllEventEntriesFromCalendarApi(
+    calendarApiId: string,
+    client: LumaClient // Authenticated requests get the correct status
+): Promise<LumaCalendarEntry[]> {
+    let allEntries: LumaCalendarEntry[] = [];
+    let cursor: string | undefined = undefined;
+    const paginationLimit = 20; // Use 20 as requested
+    const maxPages = 50; // Safety limit to prevent infinite loops
+    let pageCount = 0;
+    const seenCursors = new Set<string>(); // Track cursors to detect loops
+    const seenEventIds = new Set<string>(); // Track event IDs to detect duplicate events
+
+    console.log(`Fetching all event entries from Luma calendar API (ID: ${calendarApiId})...`);
+
+    try {
+        do {
+            pageCount++;
+            
+            // Safety check: maximum pages
+            if (pageCount > maxPages) {
+                console.warn(`  Reached maximum page limit (${maxPages}). Stopping pagination to prevent infinite loop.`);
+                break;
+            }
+
+            const params: LumaPageParams = {
+                pagination_limit: paginationLimit,
+            };
+            if (cursor) {
+                // Check for repeated cursor (infinite loop detection)
+                if (seenCursors.has(cursor)) {
+                    console.warn(`  Detected repeated cursor: ${cursor}. This indicates an API bug. Stopping pagination.`);
+                    break;
+                }
+                seenCursors.add(cursor);
+                params.pagination_cursor = cursor; // Use correct parameter name
+            }
+
+            console.log(`  Fetching page ${pageCount} of calendar ${calendarApiId} with params: ${JSON.stringify(params)}`);
+
+            // Add random delay between 1-3 seconds to appear more human
+            const delay = Math.floor(Math.random() * 2000) + 1000;
+            console.log(`  Adding human-like delay: ${delay}ms`);
+            await new Promise(resolve => setTimeout(resolve, delay));
+
+            const data = await client.getCalendarItems(calendarApiId, params);
+            
+            if (data && data.entries) {
+                // Check for duplicate events (another sign of API bug)
+                const newEvents = data.entries.filter(entry => !seenEventIds.has(entry.event.api_id));
+                const duplicateCount = data.entries.length - newEvents.length;
+                
+                if (duplicateCount > 0) {
+                    console.warn(`  Warning: ${duplicateCount} duplicate events detected in this page. API may be buggy.`);
+                }
+                
+                if (newEvents.length === 0 && pageCount > 1) {
+                    console.warn(`  All events in this page are duplicates. Stopping pagination.`);
+                    break;
+                }
+                
+                // Add new events to our collection and tracking
+                allEntries = allEntries.concat(newEvents);
+                newEvents.forEach(entry => seenEventIds.add(entry.event.api_id));
+                
+                cursor = data.has_more ? data.next_cursor : undefined;
+                console.log(`  Fetched ${data.entries.length} entries (${newEvents.length} new, ${duplicateCount} duplicates). Total unique: ${allEntries.length}. Has more: ${data.has_more}`);
+                
+                // Print details of each NEW entry for debugging
+                if (newEvents.length > 0) {
+                    console.log('  New entry details:');
+                    newEvents.forEach((entry, index) => {
+                        console.log(`    [${index + 1}] Event: "${entry.event.name}" | API ID: ${entry.event.api_id} | URL: ${entry.event.url} | Status: ${entry.status || 'N/A'} | Role Approval: ${entry.role?.approval_status || 'N/A'}`);
+                    });
+                }
+                
+                // Print pagination info
+                console.log(`  Pagination: has_more=${data.has_more}, next_cursor=${data.next_cursor || 'none'}`);
+                
+                // Additional safety check: if has_more is true but no next_cursor provided
+                if (data.has_more && !cursor) {
+                    console.warn("  API indicates has_more=true but no next_cursor provided. Stopping pagination.");
+                    break;
+                }
+            } else {
+                console.warn(
+                    "  No entries found in API response or malformed response."
+                );
+                cursor = undefined; // Stop pagination
+            }
+        } while (cursor);
+
+        console.log(`Finished fetching after ${pageCount} pages. Total ${allEntries.length} unique event entries found.`);
+        return allEntries;
+    } catch (error: any) {
+        console.error(`Error fetching event entries from Luma API for calendar ${calendarApiId} (stopped at page ${pageCount}):`);
+        if (error.response) {
+            console.error("  Status:", error.response.status);
+            console.error(
+                "  Data:",
+                JSON.stringify(error.response.data).substring(0, 300)
+            );
+        } else if (error.request) {
+            console.error("  Request error:", error.request);
+        } else {
+            console.error("  Error message:", error.message);
+        }
+        return allEntries; // Return what we have so far instead of empty array
+    }
+}
+// --- End Fetch All Event Entries ---
+
+// --- Fetch Events Hosted by a Luma User Profile ---
+export async function fetchAllEventEntriesFromUserProfile(
+    userApiId: string,
+    client: LumaClient
+): Promise<LumaCalendarEntry[]> {
+    const allEntries: LumaCalendarEntry[] = [];
+    const seenEventIds = new Set<string>();
+    const maxPages = 50;
+    let cursor: string | undefined = undefined;
+    let pageCount = 0;
+
+    console.log(`Fetching events hosted by Luma user ${userApiId}...`);
+
+    try {
+        do {
+            pageCount++;
+            if (pageCount > maxPages) {
+                console.warn(`  Reached maximum page limit (${maxPages}). Stopping pagination.`);
+                break;
+            }
+
+            const params: LumaPageParams = {
+                pagination_limit: 20,
+            };
+            if (cursor) {
+                params.pagination_cursor = cursor;
+            }
+
+            const delay = Math.floor(Math.random() * 2000) + 1000;
+            await new Promise((resolve) => setTimeout(resolve, delay));
+
+            const data = await client.getUserHostedEvents(userApiId, params);
+            const entries = data?.entries || [];
+            const newEntries = entries.filter((e) => !seenEventIds.has(e.event.api_id));
+            newEntries.forEach((e) => {
+                seenEventIds.add(e.event.api_id);
+                allEntries.push(e);
+            });
+            console.log(
+                `  Page ${pageCount}: ${entries.length} entries (${newEntries.length} new). Total: ${allEntries.length}.`
+            );
+
+            if (newEntries.length === 0) {
+                break;
+            }
+            cursor = data?.has_more ? data.next_cursor : undefined;
+        } while (cursor);
+
+        return allEntries;
+    } catch (error: any) {
+        console.error(`Error fetching events for user ${userApiId} (stopped at page ${pageCount}):`);
+        if (error.response) {
+            console.error("  Status:", error.response.status);
+        } else {
+            console.error("  Error message:", error.message);
+        }
+        return allEntries;
+    }
+}
+// --- End Fetch Events Hosted by User ---
+
+// --- Extract Calendar API ID from Page ---
+export async function getCalendarApiId(
+    calendarUrl: string,
+    client: LumaClient
+): Promise<string | null> {
+    console.log(`Attempting to extract calendar_api_id from: ${calendarUrl} via HTTP`);
+    try {
+        const pageContent = await client.getPage(calendarUrl);
+        console.log(
+            `  Successfully fetched page content (length: ${pageContent.length}).`
+        );
+
+        // 1. Try to get it from the apple-itunes-app meta tag (using regex)
+        console.log("  Looking for apple-itunes-app meta tag...");
+        const metaTagRegex =
+            /<meta[^>]*name="apple-itunes-app"[^>]*content="([^"]*)"/;
+        const metaMatch = pageContent.match(metaTagRegex);
+        if (metaMatch && metaMatch[1]) {
+            const content = metaMatch[1];
+            const match = content.match(
+                /luma:\/\/calendar\/(cal-[a-zA-Z0-9]+)/
+            );
+            if (match && match[1]) {
+                console.log(
+                    `  Extracted calendar_api_id from apple-itunes-app meta tag: ${match[1]}`
+                );
+                return match[1];
+            }
+        }
+        console.log(
+            "  apple-itunes-app meta tag not found or ID not in expected format."
+        );
+
+        // 2. Try __NEXT_DATA__ as a fallback
+        console.log("  Looking for __NEXT_DATA__ as fallback...");
+        const nextDataRegex =
+            /<script id="__NEXT_DATA__" type="application\/json">([\s\S]*?)<\/script>/;
+        const nextDataMatch = pageContent.match(nextDataRegex);
+        if (nextDataMatch && nextDataMatch[1]) {
+            try {
+                const jsonData = JSON.parse(nextDataMatch[1]);
+                const calId =
+                    jsonData.props?.pageProps?.calendar?.api_id ||
+                    jsonData.props?.pageProps?.calendar_api_id ||
+                    jsonData.props?.pageProps?.bootstrapApiResponse?.calendar
+                        ?.api_id ||
+                    jsonData.props?.pageProps?.bootstrapData
+                        ?.calendar_api_id;
+
+                if (
+                    calId &&
+                    typeof calId === "string" &&
+                    calId.startsWith("cal-")
+                ) {
+                    console.log(
+                        `  Extracted calendar_api_id from __NEXT_DATA__: ${calId}`
+                    );
+                    return calId;
+                }
+                console.log(
+                    "  Could not find calendar_api_id in __NEXT_DATA__ at common paths."
+                );
+            } catch (e) {
+                console.warn(
+                    "  Failed to parse __NEXT_DATA__ JSON for calendar_api_id.",
+                    e
+                );
+            }
+        } else {
+            console.log("  __NEXT_DATA__ script tag not found.");
+        }
+
+        // Fallback: Try to find it in the HTML content if not in __NEXT_DATA__
+        console.log(
+            "  Attempting fallback regex search for calendar_api_id in HTML content..."
+        );
+        const regex = /"calendar_api_id"\s*:\s*"(cal-[a-zA-Z0-9]+)"/;
+        const htmlMatch = pageContent.match(regex);
+        if (htmlMatch && htmlMatch[1]) {
+            console.log(
+                `  Extracted calendar_api_id using general HTML fallback regex: ${htmlMatch[1]}`
+            );
+            return htmlMatch[1];
+        }
+
+        console.error(
+            "  Could not extract calendar_api_id from page using any method."
+        );
+        return null;
+    } catch (error) {
+        console.error(
+            `  Error fetching or processing calendar page ${calendarUrl} for API ID:`,
+            error
+        );
+        return null;
+    }
+}
+// --- End Extract Calendar API ID ---
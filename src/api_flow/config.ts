@@ -15,7 +15,13 @@ export async function readConfig(): Promise<Record<string, string>> {
         const config: Record<string, string> = {};
 
         configContent.split("\n").forEach((line) => {
-            const [key, value] = line.split("=").map((s) => s.trim());
+            // Split on the first "=" only, values (URLs, templates) may contain "=" themselves
+            const separatorIndex = line.indexOf("=");
+            if (separatorIndex === -1) {
+                return;
+            }
+            const key = line.substring(0, separatorIndex).trim();
+            const value = line.substring(separatorIndex + 1).trim();
             if (key && value) {
                 config[key] = value;
             }
@@ -41,9 +47,11 @@ export async function readConfig(): Promise<Record<string, string>> {
     }
 }
 
-export async function readProfile(): Promise<Record<string, string>> {
+export async function readProfile(
+    filePath: string = PROFILE_FILE
+): Promise<Record<string, string>> {
     try {
-        const data = await fs.readFile(PROFILE_FILE, "utf-8");
+        const data = await fs.readFile(filePath, "utf-8");
         const lines = data.split("\n");
         const profile: Record<string, string> = {};
         for (const line of lines) {
@@ -56,7 +64,7 @@ export async function readProfile(): Promise<Record<string, string>> {
         return profile;
     } catch (error) {
         console.warn(
-            `\x1b[33mCould not read profile file ${PROFILE_FILE}:\x1b[0m`,
+            `\x1b[33mCould not read profile file ${filePath}:\x1b[0m`,
             error
         );
         return {};
@@ -0,0 +1,87 @@
+import * as fs from "fs/promises";
+import { isLumaDomain } from "./lumaClient";
+import { readAuthCookieName } from "./session";
+
+export interface ImportedCookie {
+    name: string;
+    value: string;
+    domain: string;
+    path?: string;
+    expires?: number; // Unix time in seconds, -1 or 0 for session cookies
+}
+
+/**
+ * Parses a Netscape cookies.txt (curl, wget, "Get cookies.txt" extensions): one cookie per
+ * line with 7 tab-separated fields. HttpOnly cookies are prefixed with "#HttpOnly_".
+ */
+export function parseNetscapeCookies(content: string): ImportedCookie[] {
+    const cookies: ImportedCookie[] = [];
+    for (const rawLine of content.split(/\r?\n/)) {
+        const line = rawLine.startsWith("#HttpOnly_") ? rawLine.substring("#HttpOnly_".length) : rawLine;
+        if (!line.trim() || line.startsWith("#")) continue;
+        const fields = line.split("\t");
+        if (fields.length < 7) continue;
+        const [domain, , cookiePath, , expires, name, ...value] = fields;
+        cookies.push({ domain, path: cookiePath, expires: Number(expires) || 0, name, value: value.join("\t") });
+    }
+    return cookies;
+}
+
+/**
+ * Parses a JSON cookie export: the array returned by Playwright's context.cookies(), a
+ * storageState file ({ "cookies": [...] }) or a browser extension export using expirationDate.
+ */
+export function parseJsonCookies(content: string): ImportedCookie[] {
+    const data = JSON.parse(content);
+    const list = Array.isArray(data) ? data : data?.cookies;
+    if (!Array.isArray(list)) {
+        throw new Error('JSON cookie file must be an array of cookies or an object with a "cookies" array.');
+    }
+    return list
+        .filter((c: any) => c && typeof c.name === "string" && typeof c.domain === "string")
+        .map((c: any) => ({
+            name: c.name,
+            value: String(c.value ?? ""),
+            domain: c.domain,
+            path: c.path,
+            expires: Number(c.expires ?? c.expirationDate) || 0,
+        }));
+}
+
+export function parseCookieFile(content: string): ImportedCookie[] {
+    const trimmed = content.trim();
+    return trimmed.startsWith("[") || trimmed.startsWith("{")
+        ? parseJsonCookies(trimmed)
+        : parseNetscapeCookies(content);
+}
+
+/**
+ * Reads an exported cookie file and returns the Cookie header for the Luma API: only Luma
+ * cookies that have not expired. Throws if the auth cookie (AUTH_COOKIE_NAME) is missing.
+ */
+export async function importCookieFile(filePath: string, config: Record<string, string>): Promise<string> {
+    const content = await fs.readFile(filePath, "utf-8");
+    const allCookies = parseCookieFile(content);
+    const nowSeconds = Date.now() / 1000;
+
+    const lumaCookies = allCookies.filter((c) => isLumaDomain(c.domain));
+    const validCookies = lumaCookies.filter((c) => !c.expires || c.expires <= 0 || c.expires > nowSeconds);
+    console.log(
+        `Imported ${validCookies.length} Luma cookie(s) from ${filePath} (${allCookies.length - lumaCookies.length} from other domains ignored, ${lumaCookies.length - validCookies.length} expired).`
+    );
+
+    const authCookieName = readAuthCookieName(config);
+    if (!validCookies.some((c) => c.name === authCookieName && c.value)) {
+        const expired = lumaCookies.some((c) => c.name === authCookieName);
+        throw new Error(
+            `${filePath} has no ${expired ? "unexpired " : ""}${authCookieName} cookie for luma.com. Export the cookies again while logged in to Luma.`
+        );
+    }
+
+    // The same cookie can be set on luma.com and .luma.com, keep the first one
+    const seen = new Set<string>();
+    return validCookies
+        .filter((c) => !seen.has(c.name) && seen.add(c.name))
+        .map((c) => `${c.name}=${c.value}`)
+        .join("; ");
+}
@@ -0,0 +1,69 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { APIRegistrationAnswer, APIRegistrationPayload } from "./api_helper";
+import { LLMUsageTotals } from "./llmUsage";
+
+const DRY_RUN_REPORT_FILE = path.resolve(__dirname, "../../dry_run_report.json");
+
+export interface DryRunReportEntry {
+    event_api_id: string;
+    event_name: string;
+    event_url: string;
+    sources?: string[];
+    action: "submit" | "review_queue"; // What a real run would do with the event
+    endpoint?: string; // URL the payload would have been POSTed to
+    prompt_versions?: Record<string, string>;
+    llm_usage?: LLMUsageTotals;
+    payload?: APIRegistrationPayload; // Set for "submit"
+    registration_answers?: APIRegistrationAnswer[]; // Set for "review_queue"
+    low_confidence_questions?: string[]; // Labels that would send the event to the review queue
+}
+
+export function isDryRun(config: Record<string, string>): boolean {
+    return (
+        process.argv.includes("--dry-run") ||
+        (config["DRY_RUN"] || "").toLowerCase() === "true"
+    );
+}
+
+/**
+ * Prints the answers of every would-be registration and of every event a real run would park
+ * in the review queue, and writes them with the full payloads to a JSON report.
+ */
+export async function writeDryRunReport(
+    entries: DryRunReportEntry[],
+    filePath: string = DRY_RUN_REPORT_FILE
+): Promise<void> {
+    const submitted = entries.filter((e) => e.action === "submit");
+    const queued = entries.filter((e) => e.action === "review_queue");
+    console.log(`\n--- Dry run: ${submitted.length} registration(s) would have been submitted ---`);
+    for (const entry of submitted) {
+        console.log(`\n  ${entry.event_name} (${entry.event_url})`);
+        console.log(`    POST ${entry.endpoint}`);
+        console.log(`    Tickets: ${JSON.stringify(entry.payload?.ticket_type_to_selection)}`);
+        for (const answer of entry.payload?.registration_answers || []) {
+            console.log(`    - ${answer.label}: ${JSON.stringify(answer.answer)}`);
+        }
+    }
+    if (queued.length > 0) {
+        console.log(`\n--- Dry run: ${queued.length} event(s) would have been parked in the review queue ---`);
+        for (const entry of queued) {
+            console.log(`\n  ${entry.event_name} (${entry.event_url})`);
+            console.log(`    Low confidence: ${(entry.low_confidence_questions || []).join(", ")}`);
+            for (const answer of entry.registration_answers || []) {
+                console.log(`    - ${answer.label}: ${JSON.stringify(answer.answer)}`);
+            }
+        }
+    }
+
+    try {
+        const report = {
+            generated_at: new Date().toISOString(),
+            entries,
+        };
+        await fs.writeFile(filePath, JSON.stringify(report, null, 2), "utf8");
+        console.log(`\nDry run report written to ${filePath}.`);
+    } catch (error) {
+        console.error(`\x1b[31mError writing dry run report ${filePath}:\x1b[0m`, error);
+    }
+}
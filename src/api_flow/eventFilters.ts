@@ -0,0 +1,329 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { LumaCalendarEntry } from "./calendarApi";
+
+const EVENT_FILTERS_FILE = path.resolve(__dirname, "../../event_filters.json");
+const FILTER_REPORT_FILE = path.resolve(__dirname, "../../filter_report.json");
+
+// All rules are optional; an event must pass every rule that is set.
+// Dates, weekdays and times are evaluated in the event's own timezone.
+export interface EventFilterRules {
+    includeNameKeywords?: string[]; // Event name must contain at least one
+    excludeNameKeywords?: string[]; // Event name must contain none
+    startDate?: string; // YYYY-MM-DD, inclusive
+    endDate?: string; // YYYY-MM-DD, inclusive
+    weekdays?: string[]; // Allowed weekdays: mon, tue, wed, thu, fri, sat, sun
+    earliestStartTime?: string; // HH:MM
+    latestStartTime?: string; // HH:MM
+    includeLocations?: string[]; // City or address must contain at least one
+    excludeLocations?: string[]; // City or address must contain none
+    includeHosts?: string[]; // At least one host name must contain one of these
+    excludeHosts?: string[]; // No host name may contain any of these
+    requireApproval?: "any" | "only" | "never"; // Based on ticket_info.require_approval
+    ticketTypes?: ("free" | "paid")[]; // Based on ticket_info.is_free
+}
+
+export interface EventFilterExclusion {
+    event_api_id: string;
+    event_name: string;
+    event_url: string;
+    rule: keyof EventFilterRules;
+    detail: string;
+}
+
+export interface EventFilterResult {
+    included: LumaCalendarEntry[];
+    excluded: EventFilterExclusion[];
+}
+
+const LIST_RULES = [
+    "includeNameKeywords",
+    "excludeNameKeywords",
+    "weekdays",
+    "includeLocations",
+    "excludeLocations",
+    "includeHosts",
+    "excludeHosts",
+    "ticketTypes",
+];
+const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"];
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// A YYYY-MM-DD string naming a day that exists: 2025-13-45 or 2025-02-30 are rejected
+function isCalendarDate(value: string): boolean {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) return false;
+    const [year, month, day] = match.slice(1).map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day));
+    return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Throws with the name of the first rule that is unknown or has a value of the wrong shape,
+ * so a typo never turns into a run without that filter.
+ */
+export function validateEventFilterRules(rules: EventFilterRules, filePath: string): void {
+    const fail = (rule: string, expected: string) => {
+        throw new Error(`Invalid rule "${rule}" in ${filePath}: expected ${expected}.`);
+    };
+    if (!rules || typeof rules !== "object" || Array.isArray(rules)) {
+        throw new Error(`${filePath} must contain a JSON object of filter rules.`);
+    }
+    const known = [...LIST_RULES, "startDate", "endDate", "earliestStartTime", "latestStartTime", "requireApproval"];
+    for (const [rule, value] of Object.entries(rules)) {
+        if (!known.includes(rule)) {
+            fail(rule, `one of ${known.join(", ")}`);
+        }
+        if (LIST_RULES.includes(rule) && (!Array.isArray(value) || value.some((v) => typeof v !== "string"))) {
+            fail(rule, "a list of strings");
+        }
+    }
+    for (const rule of ["startDate", "endDate"] as const) {
+        if (rules[rule] !== undefined && !isCalendarDate(String(rules[rule]))) {
+            fail(rule, "a real date as YYYY-MM-DD");
+        }
+    }
+    for (const rule of ["earliestStartTime", "latestStartTime"] as const) {
+        if (rules[rule] !== undefined && !/^([01]\d|2[0-3]):[0-5]\d$/.test(String(rules[rule]))) {
+            fail(rule, "a time as HH:MM");
+        }
+    }
+    if (rules.weekdays?.some((d) => !WEEKDAYS.includes(d.toLowerCase().slice(0, 3)))) {
+        fail("weekdays", `weekdays among ${WEEKDAYS.join(", ")}`);
+    }
+    if (rules.requireApproval !== undefined && !["any", "only", "never"].includes(rules.requireApproval)) {
+        fail("requireApproval", '"any", "only" or "never"');
+    }
+    if (rules.ticketTypes?.some((t) => t !== "free" && t !== "paid")) {
+        fail("ticketTypes", '"free" and/or "paid"');
+    }
+}
+
+/**
+ * Loads the filter rules, or null when there is no filter file. A file that cannot be read
+ * or has an invalid rule throws: going on without the filters would register every event.
+ */
+export async function loadEventFilterRules(
+    filePath: string = EVENT_FILTERS_FILE
+): Promise<EventFilterRules | null> {
+    let data: string;
+    try {
+        data = await fs.readFile(filePath, "utf-8");
+    } catch (error: any) {
+        if (error.code === "ENOENT") {
+            console.log(`No event filter rules found at ${filePath}. All events will be considered.`);
+            return null;
+        }
+        throw new Error(`Could not read event filter rules ${filePath}: ${error.message}`);
+    }
+    let rules: EventFilterRules;
+    try {
+        rules = JSON.parse(data) as EventFilterRules;
+    } catch (error: any) {
+        throw new Error(`Event filter rules ${filePath} are not valid JSON: ${error.message}`);
+    }
+    validateEventFilterRules(rules, filePath);
+    console.log(`Event filter rules loaded from ${filePath}:`, rules);
+    return rules;
+}
+
+function containsAny(value: string, keywords: string[]): string | undefined {
+    const lowerValue = value.toLowerCase();
+    return keywords.find((k) => lowerValue.includes(k.toLowerCase()));
+}
+
+/**
+ * Returns the date (YYYY-MM-DD), weekday (mon..sun) and time (HH:MM) of an ISO date in a timezone.
+ */
+export function getLocalDateParts(
+    isoDate: string,
+    timeZone?: string
+): { date: string; weekday: string; time: string } {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timeZone || undefined,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        weekday: "short",
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+    }).formatToParts(new Date(isoDate));
+    const get = (type: string) => parts.find((p) => p.type === type)?.value || "";
+    return {
+        date: `${get("year")}-${get("month")}-${get("day")}`,
+        weekday: get("weekday").toLowerCase().slice(0, 3),
+        time: `${get("hour")}:${get("minute")}`,
+    };
+}
+
+export function getLocationText(entry: LumaCalendarEntry): string {
+    const geo = entry.event.geo_address_info;
+    if (!geo) return "";
+    return [geo.city, geo.city_state, geo.full_address || geo.address]
+        .filter(Boolean)
+        .join(" | ");
+}
+
+/**
+ * Returns the first rule that excludes the entry, or null if it passes every rule.
+ */
+export function findExcludingRule(
+    entry: LumaCalendarEntry,
+    rules: EventFilterRules
+): { rule: keyof EventFilterRules; detail: string } | null {
+    const name = entry.event.name;
+
+    if (rules.includeNameKeywords?.length && !containsAny(name, rules.includeNameKeywords)) {
+        return { rule: "includeNameKeywords", detail: "Name matches none of the include keywords" };
+    }
+    if (rules.excludeNameKeywords?.length) {
+        const keyword = containsAny(name, rules.excludeNameKeywords);
+        if (keyword) {
+            return { rule: "excludeNameKeywords", detail: `Name contains "${keyword}"` };
+        }
+    }
+
+    const startRules: (keyof EventFilterRules)[] = [
+        "startDate",
+        "endDate",
+        "weekdays",
+        "earliestStartTime",
+        "latestStartTime",
+    ];
+    const firstStartRule = startRules.find((rule) => rules[rule] !== undefined);
+    if (firstStartRule) {
+        if (!entry.event.start_at) {
+            return { rule: firstStartRule, detail: "Event has no start time" };
+        }
+        if (entry.event.timezone && !isValidTimeZone(entry.event.timezone)) {
+            return { rule: firstStartRule, detail: `Event has an unknown timezone "${entry.event.timezone}"` };
+        }
+        const local = getLocalDateParts(entry.event.start_at, entry.event.timezone);
+        if (rules.startDate && local.date < rules.startDate) {
+            return { rule: "startDate", detail: `Starts on ${local.date}, before ${rules.startDate}` };
+        }
+        if (rules.endDate && local.date > rules.endDate) {
+            return { rule: "endDate", detail: `Starts on ${local.date}, after ${rules.endDate}` };
+        }
+        if (rules.weekdays?.length) {
+            const allowed = rules.weekdays.map((d) => d.toLowerCase().slice(0, 3));
+            if (!allowed.includes(local.weekday)) {
+                return { rule: "weekdays", detail: `Starts on a ${local.weekday}` };
+            }
+        }
+        if (rules.earliestStartTime && local.time < rules.earliestStartTime) {
+            return { rule: "earliestStartTime", detail: `Starts at ${local.time}, before ${rules.earliestStartTime}` };
+        }
+        if (rules.latestStartTime && local.time > rules.latestStartTime) {
+            return { rule: "latestStartTime", detail: `Starts at ${local.time}, after ${rules.latestStartTime}` };
+        }
+    }
+
+    const location = getLocationText(entry);
+    if (rules.includeLocations?.length && !containsAny(location, rules.includeLocations)) {
+        return {
+            rule: "includeLocations",
+            detail: location ? `Location "${location}" matches none of the include locations` : "Event has no location",
+        };
+    }
+    if (rules.excludeLocations?.length && location) {
+        const keyword = containsAny(location, rules.excludeLocations);
+        if (keyword) {
+            return { rule: "excludeLocations", detail: `Location contains "${keyword}"` };
+        }
+    }
+
+    const hostNames = (entry.hosts || []).map((h) => h.name || "");
+    if (rules.includeHosts?.length && !hostNames.some((h) => containsAny(h, rules.includeHosts!))) {
+        return { rule: "includeHosts", detail: `Hosts [${hostNames.join(", ")}] match none of the include hosts` };
+    }
+    if (rules.excludeHosts?.length) {
+        const host = hostNames.find((h) => containsAny(h, rules.excludeHosts!));
+        if (host) {
+            return { rule: "excludeHosts", detail: `Hosted by "${host}"` };
+        }
+    }
+
+    const requireApproval = entry.ticket_info?.require_approval;
+    if (rules.requireApproval === "only" && requireApproval === false) {
+        return { rule: "requireApproval", detail: "Event does not require approval" };
+    }
+    if (rules.requireApproval === "never" && requireApproval === true) {
+        return { rule: "requireApproval", detail: "Event requires approval" };
+    }
+
+    if (rules.ticketTypes?.length && entry.ticket_info?.is_free !== undefined) {
+        const ticketType = entry.ticket_info.is_free ? "free" : "paid";
+        if (!rules.ticketTypes.includes(ticketType)) {
+            return { rule: "ticketTypes", detail: `Ticket type is ${ticketType}` };
+        }
+    }
+
+    return null;
+}
+
+export function applyEventFilters(
+    entries: LumaCalendarEntry[],
+    rules: EventFilterRules
+): EventFilterResult {
+    const result: EventFilterResult = { included: [], excluded: [] };
+    for (const entry of entries) {
+        const exclusion = findExcludingRule(entry, rules);
+        if (exclusion) {
+            result.excluded.push({
+                event_api_id: entry.event.api_id,
+                event_name: entry.event.name,
+                event_url: `https://luma.com/${entry.event.url}`,
+                ...exclusion,
+            });
+        } else {
+            result.included.push(entry);
+        }
+    }
+    return result;
+}
+
+/**
+ * Logs which rule excluded each event and writes the same report to a JSON file.
+ */
+export async function writeFilterReport(
+    result: EventFilterResult,
+    filePath: string = FILTER_REPORT_FILE
+): Promise<void> {
+    console.log(
+        `\n--- Event filters: ${result.included.length} included, ${result.excluded.length} excluded ---`
+    );
+    const countsByRule: Record<string, number> = {};
+    for (const exclusion of result.excluded) {
+        countsByRule[exclusion.rule] = (countsByRule[exclusion.rule] || 0) + 1;
+        console.log(`  - ${exclusion.event_name} (${exclusion.event_url}): ${exclusion.rule} -> ${exclusion.detail}`);
+    }
+    for (const rule of Object.keys(countsByRule)) {
+        console.log(`  ${rule}: ${countsByRule[rule]} event(s) excluded`);
+    }
+
+    try {
+        const report = {
+            generated_at: new Date().toISOString(),
+            included: result.included.map((e) => ({
+                event_api_id: e.event.api_id,
+                event_name: e.event.name,
+                event_url: `https://luma.com/${e.event.url}`,
+            })),
+            excluded: result.excluded,
+        };
+        await fs.writeFile(filePath, JSON.stringify(report, null, 2), "utf8");
+        console.log(`Filter report written to ${filePath}.`);
+    } catch (error) {
+        console.error(`\x1b[31mError writing filter report ${filePath}:\x1b[0m`, error);
+    }
+}
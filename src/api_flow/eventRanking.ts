@@ -0,0 +1,225 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { LumaCalendarEntry } from "./calendarApi";
+import { fetchEventDetails } from "./api_helper";
+import { LumaClient } from "./lumaClient";
+import { callLLMForRelevance } from "./llm";
+
+const RANKING_REPORT_FILE = path.resolve(__dirname, "../../relevance_ranking.json");
+const DEFAULT_BATCH_SIZE = 15;
+
+// Ranking is enabled by RELEVANCE_GOALS; RELEVANCE_TOP_N and RELEVANCE_MIN_SCORE limit the events kept
+export interface RelevanceOptions {
+    goals: string;
+    topN: number | null;
+    minScore: number | null; // 0 to 100
+    batchSize: number;
+    reportFile: string;
+    csvFile: string | null; // Optional spreadsheet export of the ranking
+}
+
+export interface EventRelevance {
+    event_api_id: string;
+    event_name: string;
+    event_url: string;
+    start_at?: string; // ISO date (UTC)
+    score: number; // 0 to 100
+    rationale: string;
+    scored_at: string; // ISO date
+}
+
+export interface RankingResult {
+    ranked: EventRelevance[]; // Best first
+    selected: LumaCalendarEntry[];
+    unscored: LumaCalendarEntry[]; // The LLM gave no score; kept only when no limit is set
+    unscoredKept: boolean;
+    handledCount: number; // Events of earlier runs counted toward RELEVANCE_TOP_N
+}
+
+function readNumber(config: Record<string, string>, key: string): number | null {
+    const value = Number(config[key]);
+    return config[key] && !isNaN(value) ? value : null;
+}
+
+export function readRelevanceOptions(config: Record<string, string>): RelevanceOptions | null {
+    const goals = (config["RELEVANCE_GOALS"] || "").trim();
+    if (!goals) {
+        return null;
+    }
+    return {
+        goals,
+        topN: readNumber(config, "RELEVANCE_TOP_N"),
+        minScore: readNumber(config, "RELEVANCE_MIN_SCORE"),
+        batchSize: readNumber(config, "RELEVANCE_BATCH_SIZE") || DEFAULT_BATCH_SIZE,
+        reportFile: config["RELEVANCE_REPORT_FILE"] || RANKING_REPORT_FILE,
+        csvFile: config["RELEVANCE_CSV_FILE"] || null,
+    };
+}
+
+/**
+ * Scores from the previous report, reused when the goals did not change so a rerun only
+ * scores the new events of the calendar.
+ */
+async function loadPreviousScores(options: RelevanceOptions): Promise<Map<string, EventRelevance>> {
+    try {
+        const data = await fs.readFile(options.reportFile, "utf-8");
+        const report = JSON.parse(data) as { goals?: string; ranked?: EventRelevance[] };
+        if (report.goals !== options.goals || !Array.isArray(report.ranked)) {
+            return new Map();
+        }
+        return new Map(report.ranked.map((r) => [r.event_api_id, r]));
+    } catch (error: any) {
+        if (error.code !== "ENOENT") {
+            console.error(`\x1b[31mCould not read relevance report ${options.reportFile}:\x1b[0m`, error);
+        }
+        return new Map();
+    }
+}
+
+/**
+ * Scores every entry for relevance to the goals with the LLM, using the event details
+ * (description, hosts, tags) fetched from event/get.
+ */
+export async function rankEventsByRelevance(
+    entries: LumaCalendarEntry[],
+    options: RelevanceOptions,
+    config: Record<string, string>,
+    client: LumaClient
+): Promise<Map<string, EventRelevance>> {
+    const scores = new Map<string, EventRelevance>();
+    const previous = await loadPreviousScores(options);
+    const toScore: LumaCalendarEntry[] = [];
+    for (const entry of entries) {
+        const known = previous.get(entry.event.api_id);
+        if (known) {
+            scores.set(entry.event.api_id, known);
+        } else {
+            toScore.push(entry);
+        }
+    }
+    console.log(
+        `\nRanking ${entries.length} event(s) for relevance: ${scores.size} already scored, ${toScore.length} to score.`
+    );
+
+    for (let i = 0; i < toScore.length; i += options.batchSize) {
+        const batch = toScore.slice(i, i + options.batchSize);
+        const events = [];
+        for (const entry of batch) {
+            // Random delay between 1-3 seconds to stay gentle with the API
+            await new Promise((resolve) => setTimeout(resolve, Math.floor(Math.random() * 2000) + 1000));
+            const details = await fetchEventDetails(entry.event.api_id, client);
+            events.push({ name: entry.event.name, context: details?.context || null });
+        }
+
+        const results = await callLLMForRelevance(events, options.goals, config);
+        if (!results) {
+            console.warn(`  Could not score events ${i + 1}-${i + batch.length}, keeping them unranked.`);
+            continue;
+        }
+        batch.forEach((entry, index) => {
+            scores.set(entry.event.api_id, {
+                event_api_id: entry.event.api_id,
+                event_name: entry.event.name,
+                event_url: `https://luma.com/${entry.event.url}`,
+                start_at: entry.event.start_at,
+                score: results[index].score,
+                rationale: results[index].rationale,
+                scored_at: new Date().toISOString(),
+            });
+        });
+    }
+    return scores;
+}
+
+/**
+ * Keeps the entries scoring at least RELEVANCE_MIN_SCORE, then the RELEVANCE_TOP_N best minus
+ * the `handledCount` events earlier runs already handled, so repeated runs never go past N.
+ * Entries the LLM could not score are dropped when a limit is set, kept otherwise.
+ */
+export function selectRelevantEntries(
+    entries: LumaCalendarEntry[],
+    scores: Map<string, EventRelevance>,
+    options: RelevanceOptions,
+    handledCount: number = 0
+): RankingResult {
+    const ranked = entries
+        .map((e) => scores.get(e.event.api_id))
+        .filter((r): r is EventRelevance => !!r)
+        .sort((a, b) => b.score - a.score);
+    const unscored = entries.filter((e) => !scores.has(e.event.api_id));
+
+    let kept = ranked;
+    if (options.minScore !== null) {
+        kept = kept.filter((r) => r.score >= (options.minScore as number));
+    }
+    if (options.topN !== null) {
+        kept = kept.slice(0, Math.max(0, options.topN - handledCount));
+    }
+
+    // A missing key, the LLM budget or a failed batch must not lift the limit
+    const unscoredKept = options.topN === null && options.minScore === null;
+    if (unscored.length > 0 && !unscoredKept) {
+        console.warn(
+            `\x1b[33m${unscored.length} event(s) could not be scored and are left out because RELEVANCE_TOP_N or RELEVANCE_MIN_SCORE is set.\x1b[0m`
+        );
+    }
+
+    // Registration order follows the ranking, so a budget or an abort keeps the best events
+    const byId = new Map(entries.map((e) => [e.event.api_id, e]));
+    const selected = [
+        ...kept.map((r) => byId.get(r.event_api_id) as LumaCalendarEntry),
+        ...(unscoredKept ? unscored : []),
+    ];
+    return { ranked, selected, unscored, unscoredKept, handledCount };
+}
+
+function toCsvField(value: string | number | undefined): string {
+    const text = String(value ?? "");
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Logs the ranking and writes it to RELEVANCE_REPORT_FILE (JSON, also the score cache of the
+ * next run) and to RELEVANCE_CSV_FILE when set.
+ */
+export async function writeRankingReport(result: RankingResult, options: RelevanceOptions): Promise<void> {
+    const selectedIds = new Set(result.selected.map((e) => e.event.api_id));
+    const keptUnscored = result.unscoredKept ? result.unscored.length : 0;
+    console.log(
+        `\n--- Relevance ranking: ${result.selected.length - keptUnscored} of ${result.ranked.length} scored event(s) kept${
+            result.unscored.length > 0
+                ? `, ${result.unscored.length} unscored event(s) ${result.unscoredKept ? "kept" : "dropped"}`
+                : ""
+        }${result.handledCount > 0 ? `, ${result.handledCount} handled by earlier runs count toward the top N` : ""} ---`
+    );
+    result.ranked.forEach((r, index) =>
+        console.log(
+            `  ${index + 1}. [${r.score}]${selectedIds.has(r.event_api_id) ? "" : " (dropped)"} ${r.event_name}: ${r.rationale}`
+        )
+    );
+
+    try {
+        const report = {
+            generated_at: new Date().toISOString(),
+            goals: options.goals,
+            top_n: options.topN,
+            min_score: options.minScore,
+            ranked: result.ranked.map((r) => ({ ...r, selected: selectedIds.has(r.event_api_id) })),
+        };
+        await fs.writeFile(options.reportFile, JSON.stringify(report, null, 2), "utf8");
+        console.log(`Relevance ranking written to ${options.reportFile}.`);
+
+        if (options.csvFile) {
+            const header = "rank,score,selected,event_name,event_url,start_at,rationale";
+            const rows = result.ranked.map((r, index) =>
+                [index + 1, r.score, selectedIds.has(r.event_api_id) ? "yes" : "no", r.event_name, r.event_url, r.start_at, r.rationale]
+                    .map(toCsvField)
+                    .join(",")
+            );
+            await fs.writeFile(options.csvFile, [header, ...rows].join("\n") + "\n", "utf8");
+            console.log(`Relevance ranking exported to ${options.csvFile}.`);
+        }
+    } catch (error) {
+        console.error(`\x1b[31mError writing relevance ranking ${options.reportFile}:\x1b[0m`, error);
+    }
+}
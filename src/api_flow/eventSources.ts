@@ -0,0 +1,151 @@
+import {
+    LumaCalendarEntry,
+    fetchAllEventEntriesFromCalendarApi,
+    fetchAllEventEntriesFromUserProfile,
+    getCalendarApiId,
+} from "./calendarApi";
+import { fetchEventDetails, getEventApiIdFromUrl } from "./api_helper";
+import { LumaClient } from "./lumaClient";
+
+export type EventSourceKind = "calendar" | "user" | "event";
+
+export interface ResolvedEventSource {
+    url: string;
+    kind: EventSourceKind;
+    apiId: string; // cal-..., usr-... or evt-...
+}
+
+/**
+ * Reads the configured source URLs. EVENT_SOURCES takes a comma-separated list of
+ * calendar pages, user profile pages and single event pages; EVENT_CALENDAR_URL is
+ * still honoured for existing configs.
+ */
+export function readEventSources(config: Record<string, string>): string[] {
+    const urls = (config["EVENT_SOURCES"] || "")
+        .split(",")
+        .map((u) => u.trim())
+        .filter(Boolean);
+    if (config["EVENT_CALENDAR_URL"]) {
+        urls.unshift(config["EVENT_CALENDAR_URL"]);
+    }
+    return Array.from(new Set(urls));
+}
+
+/**
+ * Works out whether a URL is a calendar, a user profile or an event page. Luma pages
+ * carry a `luma://<kind>/<api id>` deep link in their apple-itunes-app meta tag.
+ */
+export async function resolveEventSource(
+    url: string,
+    client: LumaClient
+): Promise<ResolvedEventSource | null> {
+    console.log(`Resolving event source: ${url}`);
+    try {
+        const html = await client.getPage(url);
+        // Only the page's own meta tag counts: the body links to other calendars, hosts and events
+        const metaMatch = html.match(/<meta[^>]*name="apple-itunes-app"[^>]*content="([^"]*)"/);
+        const deepLink = metaMatch?.[1].match(
+            /luma:\/\/(calendar|user|event)\/((?:cal|usr|evt)-[a-zA-Z0-9]+)/
+        );
+        if (deepLink) {
+            const kind = deepLink[1] as EventSourceKind;
+            console.log(`  Source is a ${kind} page (${deepLink[2]}).`);
+            return { url, kind, apiId: deepLink[2] };
+        }
+    } catch (error: any) {
+        console.warn(`  Could not fetch ${url} to detect its type:`, error.message);
+    }
+
+    // Fall back to the dedicated extractors
+    if (/\/(user|u)\//.test(url)) {
+        const userMatch = url.match(/(usr-[a-zA-Z0-9]+)/);
+        if (userMatch) {
+            return { url, kind: "user", apiId: userMatch[1] };
+        }
+    }
+    const eventApiId = await getEventApiIdFromUrl(url, client);
+    if (eventApiId) {
+        return { url, kind: "event", apiId: eventApiId };
+    }
+    const calendarApiId = await getCalendarApiId(url, client);
+    if (calendarApiId) {
+        return { url, kind: "calendar", apiId: calendarApiId };
+    }
+
+    console.error(`  Could not determine what kind of Luma page ${url} is.`);
+    return null;
+}
+
+async function fetchSingleEventEntry(
+    source: ResolvedEventSource,
+    client: LumaClient
+): Promise<LumaCalendarEntry | null> {
+    const details = await fetchEventDetails(source.apiId, client);
+    if (!details) {
+        return null;
+    }
+    const slug = details.event?.url || new URL(source.url).pathname.replace(/^\//, "");
+    return {
+        api_id: source.apiId,
+        event: {
+            ...details.event,
+            api_id: source.apiId,
+            name: details.event?.name || details.name,
+            url: slug,
+        },
+        ticket_info: details.ticket_info,
+        role: details.role,
+        hosts: details.hosts,
+    };
+}
+
+export async function fetchEntriesForSource(
+    source: ResolvedEventSource,
+    client: LumaClient
+): Promise<LumaCalendarEntry[]> {
+    if (source.kind === "calendar") {
+        return fetchAllEventEntriesFromCalendarApi(source.apiId, client);
+    }
+    if (source.kind === "user") {
+        return fetchAllEventEntriesFromUserProfile(source.apiId, client);
+    }
+    const entry = await fetchSingleEventEntry(source, client);
+    return entry ? [entry] : [];
+}
+
+/**
+ * Fetches the events of every source and merges them by event API id.
+ * Each merged entry lists all the source URLs that found it in `sources`.
+ */
+export async function fetchEntriesFromSources(
+    sourceUrls: string[],
+    client: LumaClient
+): Promise<LumaCalendarEntry[]> {
+    const merged = new Map<string, LumaCalendarEntry>();
+
+    for (const url of sourceUrls) {
+        const source = await resolveEventSource(url, client);
+        if (!source) {
+            continue;
+        }
+        const entries = await fetchEntriesForSource(source, client);
+        let newCount = 0;
+        for (const entry of entries) {
+            const existing = merged.get(entry.event.api_id);
+            if (existing) {
+                existing.sources = Array.from(new Set([...(existing.sources || []), url]));
+                existing.role = existing.role || entry.role;
+                existing.ticket_info = existing.ticket_info || entry.ticket_info;
+                existing.hosts = existing.hosts || entry.hosts;
+            } else {
+                merged.set(entry.event.api_id, { ...entry, sources: [url] });
+                newCount++;
+            }
+        }
+        console.log(
+            `Source ${url} (${source.kind}) returned ${entries.length} event(s), ${newCount} not seen in earlier sources.`
+        );
+    }
+
+    return Array.from(merged.values());
+}
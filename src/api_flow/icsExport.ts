@@ -0,0 +1,172 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { LumaCalendarEntry } from "./calendarApi";
+import { getLocationText } from "./eventFilters";
+import { RegistrationLedger } from "./ledger";
+
+const ICS_EXPORT_FILE = path.resolve(__dirname, "../../registrations.ics");
+const DEFAULT_DURATION_MS = 2 * 60 * 60 * 1000; // Used when an event has no end time
+
+export interface IcsEvent {
+    event_api_id: string;
+    title: string;
+    start_at: string; // ISO date (UTC)
+    end_at?: string;
+    timezone?: string;
+    location?: string;
+    url: string;
+    approval_status: string;
+}
+
+const EXPORTED_STATUSES = ["approved", "pending_approval", "waitlist"];
+
+function isExportedStatus(status: string | undefined): boolean {
+    return !!status && EXPORTED_STATUSES.includes(status.toLowerCase());
+}
+
+/**
+ * Collects every event we are registered for or waiting on, from the fetched calendar
+ * entries (our role) and from the ledger (registrations made by the bot). The ledger's
+ * approval status wins: the status tracker keeps it fresher than the cached calendar entries.
+ */
+export function collectIcsEvents(
+    entries: LumaCalendarEntry[],
+    ledger: RegistrationLedger
+): IcsEvent[] {
+    const events = new Map<string, IcsEvent>();
+
+    for (const entry of entries) {
+        const status = ledger.entries[entry.event.api_id]?.approval_status || entry.role?.approval_status;
+        if (!entry.event.start_at || !isExportedStatus(status)) continue;
+        events.set(entry.event.api_id, {
+            event_api_id: entry.event.api_id,
+            title: entry.event.name,
+            start_at: entry.event.start_at,
+            end_at: entry.event.end_at,
+            timezone: entry.event.timezone,
+            location: getLocationText(entry) || undefined,
+            url: `https://luma.com/${entry.event.url}`,
+            approval_status: status!,
+        });
+    }
+
+    const calendarIds = new Set(entries.map((entry) => entry.event.api_id));
+    for (const ledgerEntry of Object.values(ledger.entries)) {
+        if (calendarIds.has(ledgerEntry.event_api_id) || !ledgerEntry.start_at) continue;
+        if (ledgerEntry.outcome !== "registered" && ledgerEntry.outcome !== "already_registered") continue;
+        // A registration without a known status is waiting for the host's approval
+        const status = ledgerEntry.approval_status || "pending_approval";
+        if (!isExportedStatus(status)) continue;
+        events.set(ledgerEntry.event_api_id, {
+            event_api_id: ledgerEntry.event_api_id,
+            title: ledgerEntry.event_name,
+            start_at: ledgerEntry.start_at,
+            end_at: ledgerEntry.end_at,
+            timezone: ledgerEntry.timezone,
+            location: ledgerEntry.location,
+            url: ledgerEntry.event_url,
+            approval_status: status,
+        });
+    }
+
+    return Array.from(events.values()).sort((a, b) => a.start_at.localeCompare(b.start_at));
+}
+
+function escapeIcsText(value: string): string {
+    return value
+        .replace(/\\/g, "\\\\")
+        .replace(/;/g, "\\;")
+        .replace(/,/g, "\\,")
+        .replace(/\r?\n/g, "\\n");
+}
+
+// UTC date-time in the RFC 5545 form 20250131T183000Z
+function formatIcsDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return (
+        `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+        `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+    );
+}
+
+// RFC 5545 lines are folded at 75 octets, continuation lines start with a space
+function foldIcsLine(line: string): string {
+    const chunks: string[] = [];
+    let current = "";
+    for (const char of line) {
+        const limit = chunks.length === 0 ? 75 : 74;
+        if (Buffer.byteLength(current + char, "utf8") > limit) {
+            chunks.push(current);
+            current = "";
+        }
+        current += char;
+    }
+    chunks.push(current);
+    return chunks.join("\r\n ");
+}
+
+/**
+ * Builds an iCalendar document. Times are written in UTC, the event's own timezone
+ * is kept in the description. Pending approvals are marked TENTATIVE.
+ */
+export function buildIcsCalendar(events: IcsEvent[]): string {
+    const now = formatIcsDate(new Date());
+    const lines = [
+        "BEGIN:VCALENDAR",
+        "VERSION:2.0",
+        "PRODID:-//luma-bot//registrations//EN",
+        "CALSCALE:GREGORIAN",
+        "METHOD:PUBLISH",
+        "X-WR-CALNAME:Luma registrations",
+    ];
+
+    for (const event of events) {
+        const start = new Date(event.start_at);
+        if (isNaN(start.getTime())) continue;
+        const givenEnd = event.end_at ? new Date(event.end_at) : null;
+        const end =
+            givenEnd && !isNaN(givenEnd.getTime())
+                ? givenEnd
+                : new Date(start.getTime() + DEFAULT_DURATION_MS);
+        const approved = event.approval_status.toLowerCase() === "approved";
+        const title = approved ? event.title : `[${event.approval_status}] ${event.title}`;
+        const description = [
+            `Approval status: ${event.approval_status}`,
+            event.timezone ? `Timezone: ${event.timezone}` : null,
+            event.url,
+        ]
+            .filter(Boolean)
+            .join("\n");
+
+        lines.push(
+            "BEGIN:VEVENT",
+            `UID:${event.event_api_id}@luma-bot`,
+            `DTSTAMP:${now}`,
+            `DTSTART:${formatIcsDate(start)}`,
+            `DTEND:${formatIcsDate(end)}`,
+            `SUMMARY:${escapeIcsText(title)}`,
+            `DESCRIPTION:${escapeIcsText(description)}`,
+            `URL:${event.url}`,
+            `STATUS:${approved ? "CONFIRMED" : "TENTATIVE"}`
+        );
+        if (event.location) {
+            lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+        }
+        lines.push("END:VEVENT");
+    }
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldIcsLine).join("\r\n") + "\r\n";
+}
+
+export async function writeIcsFile(
+    events: IcsEvent[],
+    filePath: string = ICS_EXPORT_FILE
+): Promise<void> {
+    try {
+        await fs.writeFile(filePath, buildIcsCalendar(events), "utf8");
+        console.log(`Exported ${events.length} event(s) to calendar file ${filePath}.`);
+    } catch (error) {
+        console.error(`\x1b[31mError writing calendar file ${filePath}:\x1b[0m`, error);
+    }
+}
@@ -0,0 +1,137 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { APIRegistrationAnswer } from "./api_helper";
+import { LLMUsageTotals } from "./llmUsage";
+
+const LEDGER_FILE = path.resolve(__dirname, "../../registration_ledger.json");
+
+export type LedgerOutcome =
+    | "registered" // submitRegistration returned a response
+    | "already_registered" // Luma role already approved / pending approval
+    | "skipped" // Deliberately skipped by the user during answer review
+    | "queued" // Parked in the review queue because of low-confidence answers
+    | "conflict" // Not registered because it clashes with the schedule (SCHEDULE_CONFLICT_ACTION=skip)
+    | "failed"; // any failure before or during submission
+
+export interface LedgerTicket {
+    api_id: string;
+    name: string;
+    type: string;
+}
+
+export interface LedgerEntry {
+    event_api_id: string;
+    event_name: string;
+    event_url: string;
+    sources?: string[]; // Configured source URLs that found the event
+    start_at?: string; // ISO date (UTC)
+    end_at?: string; // ISO date (UTC)
+    timezone?: string;
+    location?: string;
+    outcome: LedgerOutcome;
+    reason?: string; // Why it failed or was skipped
+    approval_status?: string; // Luma approval status (approved, pending_approval, ...) when known
+    status_checked_at?: string; // ISO date of the last approval status check
+    timestamp: string; // ISO date of the last recorded attempt
+    attempts: number;
+    ticket?: LedgerTicket;
+    registration_answers?: APIRegistrationAnswer[];
+    prompt_versions?: Record<string, string>; // Prompt template versions that produced the answers
+    llm_usage?: LLMUsageTotals; // Tokens and cost of the LLM calls for the answers
+    response?: any; // Raw submitRegistration response
+}
+
+export interface RegistrationLedger {
+    filePath: string;
+    entries: Record<string, LedgerEntry>; // Keyed by event API id (evt-...)
+    readOnly: boolean; // Dry runs consult the ledger but never write it
+}
+
+// Outcomes that mean the event needs no further work on later runs. A "conflict" is checked
+// again on every run, since the clashing event may have been cancelled or declined since.
+const HANDLED_OUTCOMES: LedgerOutcome[] = ["registered", "already_registered", "skipped", "queued"];
+
+export async function loadLedger(
+    filePath: string = LEDGER_FILE,
+    readOnly: boolean = false
+): Promise<RegistrationLedger> {
+    try {
+        const data = await fs.readFile(filePath, "utf-8");
+        const entries = JSON.parse(data) as Record<string, LedgerEntry>;
+        console.log(
+            `Loaded registration ledger with ${Object.keys(entries).length} entries from ${filePath}.`
+        );
+        return { filePath, entries, readOnly };
+    } catch (error: any) {
+        if (error.code === "ENOENT") {
+            console.log(`Registration ledger not found at ${filePath}. A new one will be created.`);
+            return { filePath, entries: {}, readOnly };
+        }
+        // Going on with an empty ledger would overwrite the history and register every event again
+        throw new Error(
+            `Could not read registration ledger ${filePath} (${error.message}). Fix or restore the file before running again.`
+        );
+    }
+}
+
+/**
+ * Writes the ledger to a temporary file renamed over the ledger, so an interrupted write
+ * never leaves a truncated ledger behind.
+ */
+export async function saveLedger(ledger: RegistrationLedger): Promise<void> {
+    if (ledger.readOnly) {
+        return;
+    }
+    const tempPath = `${ledger.filePath}.tmp`;
+    try {
+        await fs.writeFile(tempPath, JSON.stringify(ledger.entries, null, 2), "utf8");
+        await fs.rename(tempPath, ledger.filePath);
+    } catch (error) {
+        console.error(`\x1b[31mError saving registration ledger ${ledger.filePath}:\x1b[0m`, error);
+    }
+}
+
+/**
+ * Returns the ledger entry if a previous run already handled this event, null otherwise.
+ * Failed events are not considered handled so they get retried.
+ */
+export function getHandledEntry(ledger: RegistrationLedger, eventApiId: string): LedgerEntry | null {
+    const entry = ledger.entries[eventApiId];
+    if (entry && HANDLED_OUTCOMES.includes(entry.outcome)) {
+        return entry;
+    }
+    return null;
+}
+
+/**
+ * Records the outcome of an event and writes the ledger to disk straight away,
+ * so an interrupted run still keeps everything processed so far.
+ */
+export async function recordOutcome(
+    ledger: RegistrationLedger,
+    record: Omit<LedgerEntry, "timestamp" | "attempts">
+): Promise<void> {
+    const previous = ledger.entries[record.event_api_id];
+    ledger.entries[record.event_api_id] = {
+        ...record,
+        timestamp: new Date().toISOString(),
+        attempts: (previous?.attempts || 0) + 1,
+    };
+    await saveLedger(ledger);
+}
+
+export function queryLedger(
+    ledger: RegistrationLedger,
+    filter: { outcome?: LedgerOutcome; search?: string } = {}
+): LedgerEntry[] {
+    const search = filter.search?.toLowerCase();
+    return Object.values(ledger.entries)
+        .filter((entry) => !filter.outcome || entry.outcome === filter.outcome)
+        .filter(
+            (entry) =>
+                !search ||
+                entry.event_name.toLowerCase().includes(search) ||
+                entry.event_url.toLowerCase().includes(search)
+        )
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
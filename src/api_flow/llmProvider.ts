@@ -0,0 +1,174 @@
+// --- LLM Provider Layer ---
+// Every LLM call goes through an OpenAI-compatible /chat/completions endpoint.
+// Groq, OpenAI, Mistral, OpenRouter, a local Ollama or llama.cpp server, or any custom
+// base URL (e.g. a stub server in tests) can be used, and each task can be configured separately.
+
+export type LLMTask = 'ticket' | 'batch' | 'answers' | 'ranking';
+
+export interface LLMProviderSettings {
+    name: string;
+    baseUrl: string; // Without the trailing /chat/completions
+    apiKey: string | null;
+    model: string;
+    temperature?: number;
+    timeoutMs: number;
+}
+
+export interface LLMChatMessage {
+    role: string;
+    content: string;
+}
+
+interface ProviderPreset {
+    baseUrl: string;
+    apiKeyConfigKey?: string; // Config key holding the vendor API key, if the provider needs one
+    defaultModel: string;
+}
+
+const PROVIDER_PRESETS: Record<string, ProviderPreset> = {
+    groq: { baseUrl: 'https://api.groq.com/openai/v1', apiKeyConfigKey: 'GROQ_API_KEY', defaultModel: 'llama-3.1-8b-instant' },
+    openai: { baseUrl: 'https://api.openai.com/v1', apiKeyConfigKey: 'OPENAI_API_KEY', defaultModel: 'gpt-4o-mini' },
+    mistral: { baseUrl: 'https://api.mistral.ai/v1', apiKeyConfigKey: 'MISTRAL_API_KEY', defaultModel: 'mistral-small-latest' },
+    openrouter: { baseUrl: 'https://openrouter.ai/api/v1', apiKeyConfigKey: 'OPENROUTER_API_KEY', defaultModel: 'meta-llama/llama-3.1-8b-instruct' },
+    ollama: { baseUrl: 'http://localhost:11434/v1', defaultModel: 'llama3.1' },
+    llamacpp: { baseUrl: 'http://localhost:8080/v1', defaultModel: 'default' },
+};
+
+// Models used before the provider layer existed, kept so existing Groq configs behave the same
+const LEGACY_GROQ_MODELS: Record<LLMTask, { configKey: string; defaultModel: string }> = {
+    ticket: { configKey: 'GROQ_API_MODEL', defaultModel: 'llama-3.3-70b-versatile' },
+    batch: { configKey: 'GROQ_API_MODEL', defaultModel: 'llama-3.1-8b-instant' },
+    answers: { configKey: 'GROQ_API_MODEL_SEQ_ANSWERS', defaultModel: 'llama-3.1-8b-instant' },
+    ranking: { configKey: 'GROQ_API_MODEL', defaultModel: 'llama-3.1-8b-instant' },
+};
+
+const DEFAULT_TEMPERATURES: Partial<Record<LLMTask, number>> = {
+    answers: 0.1,
+    ranking: 0,
+};
+
+const DEFAULT_TIMEOUT_MS = 90000;
+
+// Provider settings are resolved for every call, key warnings are only worth printing once
+const printedWarnings = new Set<string>();
+function warnOnce(message: string): void {
+    if (!printedWarnings.has(message)) {
+        printedWarnings.add(message);
+        console.warn(`\x1b[33m${message}\x1b[0m`);
+    }
+}
+
+function apiKeyConfigKeyFor(providerName: string): string {
+    return `${providerName.toUpperCase().replace(/[^A-Z0-9]+/g, '_')}_API_KEY`;
+}
+
+/**
+ * A key only ever goes to the provider it was set for: a preset's key (GROQ_API_KEY...) is sent
+ * to the preset's own base URL only, any other server gets <PROVIDER>_API_KEY of a provider
+ * name of its own (LLM_PROVIDER=myproxy and MYPROXY_API_KEY).
+ */
+function readProviderApiKey(
+    config: Record<string, string>,
+    name: string,
+    preset: ProviderPreset | undefined,
+    baseUrl: string
+): string | null {
+    const stale = Object.keys(config).filter((k) => /^LLM_([A-Z]+_)?API_KEY$/.test(k) && config[k]);
+    if (stale.length > 0) {
+        warnOnce(`${stale.join(', ')} is ignored: set the key of the provider instead (${apiKeyConfigKeyFor(name)}).`);
+    }
+    if (!preset) {
+        return config[apiKeyConfigKeyFor(name)] || null;
+    }
+    if (!preset.apiKeyConfigKey) {
+        return null;
+    }
+    if (baseUrl !== preset.baseUrl) {
+        warnOnce(
+            `Not sending ${preset.apiKeyConfigKey} to ${baseUrl}: it is only sent to ${preset.baseUrl}. Use LLM_PROVIDER=<name> with <NAME>_API_KEY for another server.`
+        );
+        return null;
+    }
+    return config[preset.apiKeyConfigKey] || null;
+}
+
+/**
+ * Resolves the provider for a task. Task specific keys (LLM_ANSWERS_MODEL, LLM_TICKET_TIMEOUT_MS...)
+ * win over the global ones (LLM_MODEL, LLM_TIMEOUT_MS...), which win over the provider defaults.
+ * The global LLM_MODEL and LLM_BASE_URL belong to LLM_PROVIDER: a task that sets a provider of
+ * its own gets that provider's defaults instead.
+ * Returns null if the provider needs an API key and none is configured.
+ */
+export function resolveLLMProvider(config: Record<string, string>, task: LLMTask): LLMProviderSettings | null {
+    const taskPrefix = `LLM_${task.toUpperCase()}_`;
+    const setting = (name: string): string | undefined => config[taskPrefix + name] || config[`LLM_${name}`] || undefined;
+
+    const name = (setting('PROVIDER') || 'groq').toLowerCase();
+    const globalName = (config['LLM_PROVIDER'] || 'groq').toLowerCase();
+    const providerSetting = (key: string): string | undefined =>
+        name === globalName ? setting(key) : config[taskPrefix + key] || undefined;
+    const preset = PROVIDER_PRESETS[name];
+    const configuredBaseUrl = providerSetting('BASE_URL') || preset?.baseUrl;
+    if (!configuredBaseUrl) {
+        console.error(`\x1b[31mUnknown LLM provider "${name}". Set LLM_BASE_URL to its OpenAI-compatible base URL.\x1b[0m`);
+        return null;
+    }
+    const baseUrl = configuredBaseUrl.replace(/\/+$/, '');
+
+    const apiKey = readProviderApiKey(config, name, preset, baseUrl);
+    if (!apiKey && preset?.apiKeyConfigKey && baseUrl === preset.baseUrl) {
+        console.error(`\x1b[31m${preset.apiKeyConfigKey} not found in config.txt.\x1b[0m`);
+        return null;
+    }
+
+    let model = providerSetting('MODEL');
+    if (!model && name === 'groq') {
+        const legacy = LEGACY_GROQ_MODELS[task];
+        model = config[legacy.configKey] || legacy.defaultModel;
+    }
+
+    const temperature = setting('TEMPERATURE');
+    const timeoutMs = setting('TIMEOUT_MS');
+
+    return {
+        name,
+        baseUrl,
+        apiKey,
+        model: model || preset?.defaultModel || 'default',
+        temperature: temperature !== undefined ? Number(temperature) : DEFAULT_TEMPERATURES[task],
+        timeoutMs: timeoutMs !== undefined ? Number(timeoutMs) : DEFAULT_TIMEOUT_MS,
+    };
+}
+
+/**
+ * Sends one chat completion request. The raw Response is returned so callers keep
+ * their own status handling and retry policy.
+ */
+export async function postChatCompletion(
+    provider: LLMProviderSettings,
+    messages: LLMChatMessage[]
+): Promise<Response> {
+    const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+    };
+    if (provider.apiKey) {
+        headers['Authorization'] = `Bearer ${provider.apiKey}`;
+    }
+
+    const body: Record<string, any> = {
+        model: provider.model,
+        messages,
+        stream: false,
+    };
+    if (provider.temperature !== undefined) {
+        body.temperature = provider.temperature;
+    }
+
+    return fetch(`${provider.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal: AbortSignal.timeout(provider.timeoutMs),
+    });
+}
+// --- End LLM Provider Layer ---
@@ -0,0 +1,165 @@
+import { LLMProviderSettings } from './llmProvider';
+
+// --- LLM Usage Accounting ---
+// Records the token usage returned by every chat completion, prices it with a per-model price
+// table and enforces the optional LLM_BUDGET_TOKENS / LLM_BUDGET_USD limits for the run.
+
+export interface LLMUsageRecord {
+    task: string; // ticket, batch, answers, answer_repair
+    provider: string;
+    model: string;
+    label: string | null; // What the call was for, usually the event name
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    cost_usd: number | null; // null when the model has no known price
+    at: string; // ISO date
+}
+
+export interface LLMUsageTotals {
+    calls: number;
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+    cost_usd: number;
+    unpriced_calls: number; // Calls whose model has no price, not included in cost_usd
+}
+
+// USD per million tokens [input, output]. Override or extend with LLM_PRICE_<model>=<input>,<output>
+const DEFAULT_PRICES: Record<string, [number, number]> = {
+    'llama-3.1-8b-instant': [0.05, 0.08],
+    'llama-3.3-70b-versatile': [0.59, 0.79],
+    'gpt-4o-mini': [0.15, 0.6],
+    'gpt-4o': [2.5, 10],
+    'mistral-small-latest': [0.1, 0.3],
+};
+
+// Providers running on this machine cost nothing
+const LOCAL_PROVIDERS = ['ollama', 'llamacpp'];
+
+const usageRecords: LLMUsageRecord[] = [];
+let budgetWarningShown = false;
+
+function findPrice(config: Record<string, string>, provider: LLMProviderSettings): [number, number] | null {
+    if (LOCAL_PROVIDERS.includes(provider.name)) return [0, 0];
+    const configured = config[`LLM_PRICE_${provider.model}`];
+    if (configured) {
+        const [input, output] = configured.split(',').map(v => Number(v.trim()));
+        if (!isNaN(input) && !isNaN(output)) return [input, output];
+        console.warn(`\x1b[33mInvalid LLM_PRICE_${provider.model} "${configured}", expected <input>,<output> in USD per million tokens.\x1b[0m`);
+    }
+    return DEFAULT_PRICES[provider.model] || null;
+}
+
+export function summarizeUsage(records: LLMUsageRecord[]): LLMUsageTotals {
+    const totals: LLMUsageTotals = { calls: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 0, unpriced_calls: 0 };
+    for (const record of records) {
+        totals.calls++;
+        totals.prompt_tokens += record.prompt_tokens;
+        totals.completion_tokens += record.completion_tokens;
+        totals.total_tokens += record.total_tokens;
+        if (record.cost_usd === null) {
+            totals.unpriced_calls++;
+        } else {
+            totals.cost_usd += record.cost_usd;
+        }
+    }
+    return totals;
+}
+
+function formatTotals(totals: LLMUsageTotals): string {
+    const unpriced = totals.unpriced_calls > 0 ? `, ${totals.unpriced_calls} call(s) without price` : '';
+    return `${totals.calls} call(s), ${totals.prompt_tokens} prompt + ${totals.completion_tokens} completion = ${totals.total_tokens} tokens, $${totals.cost_usd.toFixed(5)}${unpriced}`;
+}
+
+/**
+ * Records the `usage` block of a chat completion response. Responses without usage
+ * (some local servers) are counted as a call with zero tokens.
+ */
+export function recordLLMUsage(
+    config: Record<string, string>,
+    provider: LLMProviderSettings,
+    task: string,
+    response: any,
+    label: string | null = null
+): LLMUsageRecord {
+    const usage = response?.usage || {};
+    const promptTokens = Number(usage.prompt_tokens) || 0;
+    const completionTokens = Number(usage.completion_tokens) || 0;
+    const price = findPrice(config, provider);
+
+    const record: LLMUsageRecord = {
+        task,
+        provider: provider.name,
+        model: provider.model,
+        label,
+        prompt_tokens: promptTokens,
+        completion_tokens: completionTokens,
+        total_tokens: Number(usage.total_tokens) || promptTokens + completionTokens,
+        cost_usd: price ? (promptTokens * price[0] + completionTokens * price[1]) / 1_000_000 : null,
+        at: new Date().toISOString(),
+    };
+    usageRecords.push(record);
+    console.log(`  LLM usage (${task}, ${provider.name}/${provider.model}): ${record.prompt_tokens} prompt + ${record.completion_tokens} completion tokens${record.cost_usd !== null ? `, $${record.cost_usd.toFixed(5)}` : ''}`);
+    return record;
+}
+
+/**
+ * Starts the accounting (and the budget) from zero, for each account of a multi-account run.
+ */
+export function resetLLMUsage(): void {
+    usageRecords.length = 0;
+    budgetWarningShown = false;
+}
+
+/**
+ * Number of calls recorded so far, to collect the usage of one event with usageSince().
+ */
+export function usageRecordCount(): number {
+    return usageRecords.length;
+}
+
+export function usageSince(index: number): LLMUsageRecord[] {
+    return usageRecords.slice(index);
+}
+
+/**
+ * True once the run has used up LLM_BUDGET_TOKENS or LLM_BUDGET_USD. Callers then skip
+ * the LLM and rely on the profile, the answer memory and the default answers.
+ */
+export function isLLMBudgetExceeded(config: Record<string, string>): boolean {
+    const totals = summarizeUsage(usageRecords);
+    const tokenBudget = Number(config['LLM_BUDGET_TOKENS']);
+    const usdBudget = Number(config['LLM_BUDGET_USD']);
+    const exceeded =
+        (config['LLM_BUDGET_TOKENS'] !== undefined && !isNaN(tokenBudget) && totals.total_tokens >= tokenBudget) ||
+        (config['LLM_BUDGET_USD'] !== undefined && !isNaN(usdBudget) && totals.cost_usd >= usdBudget);
+    if (exceeded && !budgetWarningShown) {
+        budgetWarningShown = true;
+        console.warn(`\x1b[33mLLM budget reached (${formatTotals(totals)}). No more LLM calls in this run, falling back to profile, memory and default answers.\x1b[0m`);
+    }
+    return exceeded;
+}
+
+export function printLLMUsageSummary(): void {
+    if (usageRecords.length === 0) {
+        return;
+    }
+    console.log(`\n--- LLM usage: ${formatTotals(summarizeUsage(usageRecords))} ---`);
+
+    const byModel = new Map<string, LLMUsageRecord[]>();
+    const byLabel = new Map<string, LLMUsageRecord[]>();
+    for (const record of usageRecords) {
+        const model = `${record.provider}/${record.model}`;
+        byModel.set(model, [...(byModel.get(model) || []), record]);
+        if (record.label) {
+            byLabel.set(record.label, [...(byLabel.get(record.label) || []), record]);
+        }
+    }
+    byModel.forEach((records, model) => console.log(`  ${model}: ${formatTotals(summarizeUsage(records))}`));
+    if (byLabel.size > 0) {
+        console.log('  Per event:');
+        byLabel.forEach((records, label) => console.log(`    - ${label}: ${formatTotals(summarizeUsage(records))}`));
+    }
+}
+// --- End LLM Usage Accounting ---
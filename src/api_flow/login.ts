@@ -0,0 +1,246 @@
+import { chromium } from "playwright-extra";
+import stealth from "puppeteer-extra-plugin-stealth";
+import { BrowserContext } from "playwright";
+import { getBrowserConfig } from "./browserConfig";
+import {
+    checkSession,
+    findIdentityMismatch,
+    LumaSessionUser,
+    loadSession,
+    profileNamesAccount,
+    readAuthCookieName,
+    readSessionFile,
+    saveSession,
+    SessionCheck,
+} from "./session";
+import { importCookieFile } from "./cookieImport";
+
+const LUMA_COOKIE_URLS = ["https://luma.com", "https://api.luma.com"];
+
+export interface BrowserLoginResult {
+    loggedIn: boolean;
+    cookieString: string | null;
+    user?: LumaSessionUser | null; // Luma account of the session, when known
+}
+
+/**
+ * Opens the configured browser on the Luma sign-in page, waits for the user to log in
+ * and returns the session cookies. The browser is always closed before returning.
+ * Returns null if the browser could not be started.
+ */
+export async function loginWithBrowser(
+    config: Record<string, string>
+): Promise<BrowserLoginResult | null> {
+    const stealthPlugin = stealth();
+    chromium.use(stealthPlugin);
+
+    const browserConfig = getBrowserConfig(
+        config["BROWSER"],
+        config["BROWSER_USER_DATA_DIR"] || undefined
+    );
+
+    console.log(
+        `Launching ${config["BROWSER"]} (${browserConfig.executablePath}) with profile (${browserConfig.userDataDir}) using stealth...`
+    );
+
+    const context: BrowserContext = await chromium.launchPersistentContext(
+        browserConfig.userDataDir,
+        {
+            headless: false,
+            executablePath: browserConfig.executablePath,
+            args: ["--disable-blink-features=AutomationControlled"],
+        }
+    );
+
+    try {
+        console.log("Persistent context launched. Getting initial page...");
+        const page = context.pages()[0];
+        if (!page) {
+            console.error(
+                "Failed to get initial page from persistent context. Exiting."
+            );
+            return null;
+        }
+        console.log("Initial page obtained.");
+
+        const loginUrl = "https://luma.com/signin";
+        console.log(`Navigating to login page: ${loginUrl}...`);
+        await page.goto(loginUrl, { waitUntil: "networkidle", timeout: 60000 });
+        console.log(
+            `Successfully navigated to ${loginUrl}. Please log in if prompted.`
+        );
+
+        // Luma may redirect anywhere after login (home, an event, onboarding), so the
+        // auth cookie is what tells us the login went through
+        const authCookieName = readAuthCookieName(config);
+        console.log(`Waiting for the ${authCookieName} cookie after login...`);
+        const loginCheckTimeout = 180000;
+        const checkInterval = 2000;
+        let currentTime = 0;
+        let loggedIn = false;
+
+        while (currentTime < loginCheckTimeout) {
+            const cookies = await context.cookies(LUMA_COOKIE_URLS);
+            if (cookies.some((c) => c.name === authCookieName && c.value)) {
+                console.log(`Auth cookie found (current URL: ${page.url()}). Login successful.`);
+                loggedIn = true;
+                break;
+            }
+            await page.waitForTimeout(checkInterval);
+            currentTime += checkInterval;
+            if (currentTime % 10000 === 0) {
+                console.log(
+                    `Still waiting for login, current URL: ${page.url()} (${
+                        currentTime / 1000
+                    }s passed)`
+                );
+            }
+        }
+
+        if (!loggedIn) {
+            console.error(
+                `\x1b[31mTimed out after ${loginCheckTimeout / 1000}s waiting for the ${authCookieName} cookie. Not logged in.\x1b[0m`
+            );
+        }
+
+        // Extract the Luma cookies after login
+        let cookieString: string | null = null;
+        if (loggedIn) {
+            try {
+                const cookies = await context.cookies(LUMA_COOKIE_URLS);
+                cookieString = cookies
+                    .map((c) => `${c.name}=${c.value}`)
+                    .join("; ");
+                console.log("Successfully extracted cookies.");
+            } catch (e) {
+                console.warn("Failed to extract cookies after login:", e);
+                loggedIn = false;
+            }
+        }
+
+        return { loggedIn, cookieString };
+    } finally {
+        // We have the cookies (or gave up), we can close the browser now.
+        console.log("Closing browser...");
+        await context.close();
+        console.log("Browser closed.");
+    }
+}
+
+function readCookieFilePath(config: Record<string, string>): string | null {
+    const argIndex = process.argv.indexOf("--cookies");
+    if (argIndex !== -1 && process.argv[argIndex + 1]) {
+        return process.argv[argIndex + 1];
+    }
+    return config["COOKIES_FILE"] || null;
+}
+
+/**
+ * Shows who we are logged in as and checks it against profile.txt: registering with someone
+ * else's account would submit their name and email with our answers.
+ */
+function confirmIdentity(check: SessionCheck | null, profile: Record<string, string> | null): boolean {
+    if (!check?.user) {
+        if (profile && profileNamesAccount(profile)) {
+            console.error(
+                "\x1b[31mCould not read the Luma account of this session to check it against profile.txt. Aborting.\x1b[0m"
+            );
+            return false;
+        }
+        console.warn("\x1b[33mCould not read the Luma account of this session, identity not checked.\x1b[0m");
+        return true;
+    }
+    const { user } = check;
+    console.log(`Logged in to Luma as ${user.name || "(no name)"}${user.email ? ` <${user.email}>` : ""} (${user.api_id}).`);
+    const mismatch = profile ? findIdentityMismatch(user, profile) : null;
+    if (mismatch) {
+        console.error(
+            `\x1b[31m${mismatch}. Log in with the right account (--login) or fix profile.txt. Aborting.\x1b[0m`
+        );
+        return false;
+    }
+    return true;
+}
+
+/**
+ * Reuses the session saved by an earlier login while Luma still accepts it, and only opens
+ * the browser when there is none or it has expired. Browser logins are saved for the next run.
+ * --cookies <file> (or COOKIES_FILE) imports an exported cookie file instead, for servers
+ * without a browser. --login ignores the saved session; --no-browser (or NO_BROWSER_LOGIN=true,
+ * for cron) ends the run instead of opening the browser.
+ * Returns null when no session could be obtained or it belongs to someone else than `profile`.
+ */
+export async function loginWithSavedSession(
+    config: Record<string, string>,
+    profile: Record<string, string> | null = null
+): Promise<BrowserLoginResult | null> {
+    const store = await loadSession(readSessionFile(config));
+    let cookieString: string | null = null;
+    let check: SessionCheck | null = null;
+    let isNewSession = false; // Saved once the identity check has passed
+
+    const cookieFile = readCookieFilePath(config);
+    if (cookieFile) {
+        try {
+            cookieString = await importCookieFile(cookieFile, config);
+        } catch (error: any) {
+            console.error(`\x1b[31mCould not import cookies:\x1b[0m ${error.message}`);
+            return null;
+        }
+        check = await checkSession(cookieString, config);
+        if (check.status === "expired") {
+            console.error(`\x1b[31mLuma rejected the cookies of ${cookieFile}, the session has expired. Export them again.\x1b[0m`);
+            return null;
+        }
+        isNewSession = true;
+    } else if (store.session && !process.argv.includes("--login")) {
+        check = await checkSession(store.session.cookie_string, config);
+        if (check.status === "expired") {
+            console.log("Saved Luma session has expired.");
+        } else {
+            // Without an answer from Luma the account stays unknown: the identity check below
+            // aborts when profile.txt names the account, so only promise to go on otherwise
+            console.log(
+                check.status === "valid"
+                    ? "Saved Luma session is still valid, no browser login needed."
+                    : profile && profileNamesAccount(profile)
+                      ? "Could not verify the saved Luma session."
+                      : "Could not verify the saved Luma session, using it anyway."
+            );
+            cookieString = store.session.cookie_string;
+        }
+    }
+
+    if (!cookieString) {
+        const noBrowser =
+            process.argv.includes("--no-browser") ||
+            (config["NO_BROWSER_LOGIN"] || "").toLowerCase() === "true";
+        if (noBrowser) {
+            console.error(
+                "\x1b[31mNo valid saved Luma session and browser login is disabled. Run once without --no-browser (or NO_BROWSER_LOGIN) to log in.\x1b[0m"
+            );
+            return null;
+        }
+
+        const result = await loginWithBrowser(config);
+        if (!result?.loggedIn || !result.cookieString) {
+            return result;
+        }
+        cookieString = result.cookieString;
+        check = await checkSession(cookieString, config);
+        if (check.status === "expired") {
+            console.error("\x1b[31mLuma does not accept the cookies of the browser login.\x1b[0m");
+            return { loggedIn: false, cookieString: null };
+        }
+        isNewSession = true;
+    }
+
+    // A session of the wrong account is never saved, the next run must not reuse it
+    if (!confirmIdentity(check, profile)) {
+        return null;
+    }
+    if (isNewSession) {
+        await saveSession(store, cookieString);
+    }
+    return { loggedIn: true, cookieString, user: check?.user || null };
+}
@@ -0,0 +1,211 @@
+import axios, { AxiosInstance, AxiosResponse } from "axios";
+import { APIEventDetails, APIRegistrationPayload } from "./api_helper";
+import { LumaCalendarApiResponse } from "./calendarApi";
+
+const LUMA_DOMAINS = ["luma.com", "lu.ma"];
+const API_BASE_URL = "https://api.luma.com";
+export const REGISTRATION_API_URL = "https://api2.luma.com/event/register";
+const SESSION_CHECK_URL = `${API_BASE_URL}/user/get-self`;
+
+const DEFAULT_TIMEOUT_MS = 30000;
+// Build id of the Luma web app sent in x-luma-client-version, override with LUMA_CLIENT_VERSION
+const DEFAULT_CLIENT_VERSION = "b28c5f9b1aa7e8fed961add97128fc95149d0c7d";
+
+// Every request presents the same browser: the user agent and client hints must agree
+const USER_AGENT =
+    "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/142.0.0.0 Safari/537.36";
+const BROWSER_HEADERS: Record<string, string> = {
+    "user-agent": USER_AGENT,
+    "accept-language": "en-US,en;q=0.9",
+    "accept-encoding": "gzip, deflate, br, zstd",
+    "sec-ch-ua": '"Chromium";v="142", "Google Chrome";v="142", "Not_A Brand";v="99"',
+    "sec-ch-ua-mobile": "?0",
+    "sec-ch-ua-platform": '"macOS"',
+};
+
+export function isLumaDomain(domain: string): boolean {
+    const host = domain.replace(/^\./, "").toLowerCase();
+    return LUMA_DOMAINS.some((d) => host === d || host.endsWith(`.${d}`));
+}
+
+export interface LumaPageParams {
+    pagination_limit: number;
+    pagination_cursor?: string;
+    period?: "future" | "past";
+}
+
+/**
+ * The one way this app talks to Luma: every page and API request goes through a client, so
+ * they all carry the same browser headers, the same cookies and the same timeout. Cookies
+ * Luma sets or clears in its responses update the jar for the following requests.
+ */
+export class LumaClient {
+    private readonly http: AxiosInstance;
+    private readonly cookies = new Map<string, string>();
+    private readonly clientVersion: string;
+    private changed = false;
+
+    constructor(cookieString: string | null, config: Record<string, string> = {}) {
+        for (const pair of (cookieString || "").split(";")) {
+            const index = pair.indexOf("=");
+            if (index > 0) {
+                this.cookies.set(pair.substring(0, index).trim(), pair.substring(index + 1).trim());
+            }
+        }
+        this.clientVersion = config["LUMA_CLIENT_VERSION"] || DEFAULT_CLIENT_VERSION;
+        this.http = axios.create({ timeout: Number(config["LUMA_TIMEOUT_MS"]) || DEFAULT_TIMEOUT_MS });
+        this.http.interceptors.response.use(
+            (response) => {
+                this.storeCookies(response);
+                return response;
+            },
+            (error) => {
+                if (error.response) {
+                    this.storeCookies(error.response);
+                }
+                return Promise.reject(error);
+            }
+        );
+    }
+
+    get hasCookies(): boolean {
+        return this.cookies.size > 0;
+    }
+
+    // Cookie header of the jar, with the updates received so far
+    get cookieString(): string {
+        return Array.from(this.cookies, ([name, value]) => `${name}=${value}`).join("; ");
+    }
+
+    // True once a response has set or cleared a cookie, so the saved session is worth updating
+    get cookiesChanged(): boolean {
+        return this.changed;
+    }
+
+    private storeCookies(response: AxiosResponse): void {
+        const url = response.config.url ? new URL(response.config.url) : null;
+        if (!url || !isLumaDomain(url.hostname)) {
+            return;
+        }
+        const setCookie = response.headers["set-cookie"];
+        for (const header of Array.isArray(setCookie) ? setCookie : []) {
+            const [pair, ...attributes] = header.split(";");
+            const index = pair.indexOf("=");
+            if (index <= 0) continue;
+            const name = pair.substring(0, index).trim();
+            const value = pair.substring(index + 1).trim();
+
+            const attribute = (key: string) =>
+                attributes
+                    .map((a: string) => a.trim())
+                    .find((a: string) => a.toLowerCase().startsWith(`${key}=`))
+                    ?.substring(key.length + 1);
+            const maxAge = attribute("max-age");
+            const expires = attribute("expires");
+            const expired =
+                !value ||
+                (maxAge !== undefined && Number(maxAge) <= 0) ||
+                (maxAge === undefined && expires !== undefined && Date.parse(expires) <= Date.now());
+
+            if (expired) {
+                this.changed = this.cookies.delete(name) || this.changed;
+            } else if (this.cookies.get(name) !== value) {
+                this.cookies.set(name, value);
+                this.changed = true;
+            }
+        }
+    }
+
+    // Cookies only go to Luma, a source URL on another site must not receive the session
+    private headersFor(url: string, headers: Record<string, string>): Record<string, string> {
+        const all = { ...BROWSER_HEADERS, ...headers };
+        if (this.cookies.size > 0 && isLumaDomain(new URL(url).hostname)) {
+            all["cookie"] = this.cookieString;
+        }
+        return all;
+    }
+
+    // Headers of the Luma web app's fetch() calls to api.luma.com and api2.luma.com
+    private apiHeaders(pageUrl: string): Record<string, string> {
+        return {
+            accept: "*/*",
+            origin: "https://luma.com",
+            referer: pageUrl,
+            "sec-fetch-dest": "empty",
+            "sec-fetch-mode": "cors",
+            "sec-fetch-site": "same-site",
+            "x-luma-client-type": "luma-web",
+            "x-luma-client-version": this.clientVersion,
+            "x-luma-web-url": pageUrl,
+        };
+    }
+
+    private async getJson<T>(url: string, params: Record<string, string | number | undefined>, pageUrl = "https://luma.com/"): Promise<T> {
+        const response = await this.http.get<T>(url, { params, headers: this.headersFor(url, this.apiHeaders(pageUrl)) });
+        return response.data;
+    }
+
+    /**
+     * Fetches a luma.com page (event, calendar or profile) the way a browser navigation would.
+     */
+    async getPage(url: string): Promise<string> {
+        const response = await this.http.get<string>(url, {
+            responseType: "text",
+            headers: this.headersFor(url, {
+                accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+                "sec-fetch-dest": "document",
+                "sec-fetch-mode": "navigate",
+                "sec-fetch-site": "none",
+                "sec-fetch-user": "?1",
+                "upgrade-insecure-requests": "1",
+            }),
+        });
+        return response.data;
+    }
+
+    async getEvent(eventApiId: string): Promise<APIEventDetails> {
+        return this.getJson<APIEventDetails>(`${API_BASE_URL}/event/get`, { event_api_id: eventApiId });
+    }
+
+    async getCalendarItems(calendarApiId: string, page: LumaPageParams): Promise<LumaCalendarApiResponse> {
+        return this.getJson<LumaCalendarApiResponse>(`${API_BASE_URL}/calendar/get-items`, {
+            calendar_api_id: calendarApiId,
+            period: "future",
+            ...page,
+        });
+    }
+
+    async getUserHostedEvents(userApiId: string, page: LumaPageParams): Promise<LumaCalendarApiResponse> {
+        return this.getJson<LumaCalendarApiResponse>(`${API_BASE_URL}/user/profile/events-hosting`, {
+            user_api_id: userApiId,
+            period: "future",
+            ...page,
+        });
+    }
+
+    // The logged-in user; Luma answers 401/403 once the session has expired
+    async getSelf(url: string = SESSION_CHECK_URL): Promise<any> {
+        return this.getJson<any>(url, {});
+    }
+
+    /**
+     * Posts a registration. `headersOverride` replaces headers (e.g. captured from a browser),
+     * except the cookie which always comes from the jar.
+     */
+    async register(payload: APIRegistrationPayload, eventPageUrl: string, headersOverride?: Record<string, string>): Promise<any> {
+        const headers: Record<string, string> = {
+            ...this.apiHeaders(eventPageUrl),
+            "content-type": "application/json",
+            priority: "u=1, i",
+        };
+        for (const key of Object.keys(headersOverride || {})) {
+            if (key.toLowerCase() !== "cookie") {
+                headers[key] = (headersOverride as Record<string, string>)[key];
+            }
+        }
+        const response = await this.http.post(REGISTRATION_API_URL, payload, {
+            headers: this.headersFor(REGISTRATION_API_URL, headers),
+        });
+        return response.data;
+    }
+}
@@ -1,21 +1,61 @@
-import { chromium } from "playwright-extra";
-import stealth from "puppeteer-extra-plugin-stealth";
 import { Browser, Page, BrowserContext } from "playwright";
 import { readConfig, readProfile } from "./config";
 import * as fs from "fs/promises";
 import dotenv from "dotenv";
 import path from "path";
-import axios from "axios";
 import {
     fetchEventDetails,
     prepareRegistrationAnswers,
     submitRegistration,
+    buildRegistrationPayload,
+    extractApprovalStatus,
     APIRegistrationQuestion,
     APITicketType,
     APIEventDetails,
     APIRegistrationAnswer,
 } from "./api_helper";
-import { getBrowserConfig } from "./browserConfig";
+import { loginWithSavedSession } from "./login";
+import { LumaClient, REGISTRATION_API_URL } from "./lumaClient";
+import { saveClientSession } from "./session";
+import { readEventSources, fetchEntriesFromSources } from "./eventSources";
+import {
+    loadEventFilterRules,
+    applyEventFilters,
+    writeFilterReport,
+    getLocationText,
+} from "./eventFilters";
+import {
+    readScheduleOptions,
+    buildPersonalSchedule,
+    toScheduleItem,
+    findScheduleConflicts,
+    outranksConflicts,
+    describeScheduleItem,
+} from "./schedule";
+import { collectIcsEvents, writeIcsFile } from "./icsExport";
+import { loadLedger, getHandledEntry, recordOutcome } from "./ledger";
+import { DryRunReportEntry, isDryRun, writeDryRunReport } from "./dryRunReport";
+import { isReviewEnabled, reviewRegistrationAnswers } from "./answerReview";
+import {
+    enqueueForReview,
+    findLowConfidenceQuestions,
+    loadReviewQueue,
+    readMinConfidence,
+} from "./reviewQueue";
+import {
+    loadAnswerMemory,
+    rememberAnswers,
+    saveAnswerMemory,
+} from "./answerMemory";
+import { printLLMUsageSummary, resetLLMUsage } from "./llmUsage";
+import { loadProfileTranslations } from "./answerLanguage";
+import { applyAccountArg } from "./accounts";
+import {
+    rankEventsByRelevance,
+    readRelevanceOptions,
+    selectRelevantEntries,
+    writeRankingReport,
+} from "./eventRanking";
 
 
 // Load environment variables from .env file
@@ -74,416 +114,147 @@ async function autoScroll(page: Page): Promise<void> {
 }
 // --- End Helper Function ---
 
-// --- New Helper Function to Fetch All Event Entries from Luma Calendar API ---
-interface LumaCalendarEntryEvent {
-    api_id: string;
-    name: string;
-    url: string; // This is the event slug
-    // Add other event fields if needed from the provided JSON
-}
-
-interface LumaCalendarEntryTicketInfo {
-    require_approval?: boolean;
-    is_free?: boolean;
-    // Add other relevant fields from ticket_info if needed
-}
-
-interface LumaCalendarEntryRole {
-    approval_status?: string;
-    // Add other role fields if needed, e.g., type
-}
-
-interface LumaCalendarEntry {
-    api_id: string; // Calendar Event ID (calev-...)
-    event: LumaCalendarEntryEvent;
-    status?: string; // General status of the calendar entry (might be different from your role)
-    ticket_info?: LumaCalendarEntryTicketInfo;
-    role?: LumaCalendarEntryRole; // User-specific role and approval status for this calendar event
-    // Add other entry fields if needed
-}
-
-interface LumaCalendarApiResponse {
-    entries: LumaCalendarEntry[];
-    has_more: boolean;
-    next_cursor?: string;
-}
-
-async function fetchAllEventEntriesFromCalendarApi(
-    calendarApiId: string,
-    cookieString: string | null // For authenticated requests to get correct status
-): Promise<LumaCalendarEntry[]> {
-    let allEntries: LumaCalendarEntry[] = [];
-    let cursor: string | undefined = undefined;
-    const paginationLimit = 20; // Use 20 as requested
-    const maxPages = 50; // Safety limit to prevent infinite loops
-    let pageCount = 0;
-    const seenCursors = new Set<string>(); // Track cursors to detect loops
-    const seenEventIds = new Set<string>(); // Track event IDs to detect duplicate events
-
-    console.log(`Fetching all event entries from Luma calendar API (ID: ${calendarApiId})...`);
-
-    try {
-        do {
-            pageCount++;
-            
-            // Safety check: maximum pages
-            if (pageCount > maxPages) {
-                console.warn(`  Reached maximum page limit (${maxPages}). Stopping pagination to prevent infinite loop.`);
-                break;
-            }
-
-            const params: Record<string, string | number> = {
-                calendar_api_id: calendarApiId,
-                period: 'future',
-                pagination_limit: paginationLimit,
-            };
-            if (cursor) {
-                // Check for repeated cursor (infinite loop detection)
-                if (seenCursors.has(cursor)) {
-                    console.warn(`  Detected repeated cursor: ${cursor}. This indicates an API bug. Stopping pagination.`);
-                    break;
-                }
-                seenCursors.add(cursor);
-                params.pagination_cursor = cursor; // Use correct parameter name
-            }
-
-            const apiUrl = 'https://api.luma.com/calendar/get-items';
-            console.log(`  Fetching page ${pageCount}: ${apiUrl} with params: ${JSON.stringify(params)}`);
-            
-            const headers: Record<string, string> = {
-                'Accept': 'application/json',
-                'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36',
-                'Accept-Language': 'en-US,en;q=0.9,fr;q=0.8',
-                'Accept-Encoding': 'gzip, deflate, br, zstd',
-                'Referer': 'https://luma.com/ethcc',
-                'Origin': 'https://luma.com',
-                'Sec-Ch-Ua': '"Google Chrome";v="131", "Chromium";v="131", "Not_A Brand";v="24"',
-                'Sec-Ch-Ua-Mobile': '?0',
-                'Sec-Ch-Ua-Platform': '"macOS"',
-                'Sec-Fetch-Dest': 'empty',
-                'Sec-Fetch-Mode': 'cors',
-                'Sec-Fetch-Site': 'same-origin',
-            };
-            if (cookieString) {
-                headers["cookie"] = cookieString;
-            }
-
-            // Add random delay between 1-3 seconds to appear more human
-            const delay = Math.floor(Math.random() * 2000) + 1000;
-            console.log(`  Adding human-like delay: ${delay}ms`);
-            await new Promise(resolve => setTimeout(resolve, delay));
-
-            const response = await axios.get<LumaCalendarApiResponse>(apiUrl, { params, headers });
-            
-            if (response.data && response.data.entries) {
-                // Check for duplicate events (another sign of API bug)
-                const newEvents = response.data.entries.filter(entry => !seenEventIds.has(entry.event.api_id));
-                const duplicateCount = response.data.entries.length - newEvents.length;
-                
-                if (duplicateCount > 0) {
-                    console.warn(`  Warning: ${duplicateCount} duplicate events detected in this page. API may be buggy.`);
-                }
-                
-                if (newEvents.length === 0 && pageCount > 1) {
-                    console.warn(`  All events in this page are duplicates. Stopping pagination.`);
-                    break;
-                }
-                
-                // Add new events to our collection and tracking
-                allEntries = allEntries.concat(newEvents);
-                newEvents.forEach(entry => seenEventIds.add(entry.event.api_id));
-                
-                cursor = response.data.has_more ? response.data.next_cursor : undefined;
-                console.log(`  Fetched ${response.data.entries.length} entries (${newEvents.length} new, ${duplicateCount} duplicates). Total unique: ${allEntries.length}. Has more: ${response.data.has_more}`);
-                
-                // Print details of each NEW entry for debugging
-                if (newEvents.length > 0) {
-                    console.log('  New entry details:');
-                    newEvents.forEach((entry, index) => {
-                        console.log(`    [${index + 1}] Event: "${entry.event.name}" | API ID: ${entry.event.api_id} | URL: ${entry.event.url} | Status: ${entry.status || 'N/A'} | Role Approval: ${entry.role?.approval_status || 'N/A'}`);
-                    });
-                }
-                
-                // Print pagination info
-                console.log(`  Pagination: has_more=${response.data.has_more}, next_cursor=${response.data.next_cursor || 'none'}`);
-                
-                // Additional safety check: if has_more is true but no next_cursor provided
-                if (response.data.has_more && !cursor) {
-                    console.warn("  API indicates has_more=true but no next_cursor provided. Stopping pagination.");
-                    break;
-                }
-            } else {
-                console.warn(
-                    "  No entries found in API response or malformed response."
-                );
-                cursor = undefined; // Stop pagination
-            }
-        } while (cursor);
-
-        console.log(`Finished fetching after ${pageCount} pages. Total ${allEntries.length} unique event entries found.`);
-        return allEntries;
-    } catch (error: any) {
-        console.error(`Error fetching event entries from Luma API for calendar ${calendarApiId} (stopped at page ${pageCount}):`);
-        if (error.response) {
-            console.error("  Status:", error.response.status);
-            console.error(
-                "  Data:",
-                JSON.stringify(error.response.data).substring(0, 300)
-            );
-        } else if (error.request) {
-            console.error("  Request error:", error.request);
-        } else {
-            console.error("  Error message:", error.message);
-        }
-        return allEntries; // Return what we have so far instead of empty array
-    }
+export interface ApiFlowSummary {
+    registered: string[];
+    conflicts: string[];
+    parked: string[]; // Sent to the review queue
+    failures: string[];
+    aborted: boolean;
 }
-// --- End New Helper Function ---
-
-// --- New Helper Function to Extract Calendar API ID from Page ---
-async function getCalendarApiId(
-    calendarUrl: string,
-    cookieString: string | null
-): Promise<string | null> {
-    console.log(`Attempting to extract calendar_api_id from: ${calendarUrl} via HTTP`);
-    try {
-        const headers: { [key: string]: string } = {
-            Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7",
-            "Accept-Language": "en-US,en;q=0.9,fr;q=0.8",
-            "User-Agent":
-                "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
-        };
-        if (cookieString) {
-            headers["cookie"] = cookieString;
-        }
-
-        const response = await axios.get<string>(calendarUrl, { headers });
-        const pageContent = response.data;
-        console.log(
-            `  Successfully fetched page content (length: ${pageContent.length}).`
-        );
 
-        // 1. Try to get it from the apple-itunes-app meta tag (using regex)
-        console.log("  Looking for apple-itunes-app meta tag...");
-        const metaTagRegex =
-            /<meta[^>]*name="apple-itunes-app"[^>]*content="([^"]*)"/;
-        const metaMatch = pageContent.match(metaTagRegex);
-        if (metaMatch && metaMatch[1]) {
-            const content = metaMatch[1];
-            const match = content.match(
-                /luma:\/\/calendar\/(cal-[a-zA-Z0-9]+)/
-            );
-            if (match && match[1]) {
-                console.log(
-                    `  Extracted calendar_api_id from apple-itunes-app meta tag: ${match[1]}`
-                );
-                return match[1];
-            }
-        }
-        console.log(
-            "  apple-itunes-app meta tag not found or ID not in expected format."
-        );
-
-        // 2. Try __NEXT_DATA__ as a fallback
-        console.log("  Looking for __NEXT_DATA__ as fallback...");
-        const nextDataRegex =
-            /<script id="__NEXT_DATA__" type="application\/json">([\s\S]*?)<\/script>/;
-        const nextDataMatch = pageContent.match(nextDataRegex);
-        if (nextDataMatch && nextDataMatch[1]) {
-            try {
-                const jsonData = JSON.parse(nextDataMatch[1]);
-                const calId =
-                    jsonData.props?.pageProps?.calendar?.api_id ||
-                    jsonData.props?.pageProps?.calendar_api_id ||
-                    jsonData.props?.pageProps?.bootstrapApiResponse?.calendar
-                        ?.api_id ||
-                    jsonData.props?.pageProps?.bootstrapData
-                        ?.calendar_api_id;
-
-                if (
-                    calId &&
-                    typeof calId === "string" &&
-                    calId.startsWith("cal-")
-                ) {
-                    console.log(
-                        `  Extracted calendar_api_id from __NEXT_DATA__: ${calId}`
-                    );
-                    return calId;
-                }
-                console.log(
-                    "  Could not find calendar_api_id in __NEXT_DATA__ at common paths."
-                );
-            } catch (e) {
-                console.warn(
-                    "  Failed to parse __NEXT_DATA__ JSON for calendar_api_id.",
-                    e
-                );
-            }
-        } else {
-            console.log("  __NEXT_DATA__ script tag not found.");
-        }
-
-        // Fallback: Try to find it in the HTML content if not in __NEXT_DATA__
+// --- Main API Flow Function ---
+// Runs with config.txt (and --account) by default; the accounts command passes each account's config.
+// Returns null when the run could not start or crashed.
+export async function mainApiFlow(
+    accountConfig?: Record<string, string>
+): Promise<ApiFlowSummary | null> {
+    const config =
+        accountConfig || (await applyAccountArg(await readConfig()));
+    // Usage and LLM budget are per run, an earlier account's calls do not count
+    resetLLMUsage();
+    const dryRun = isDryRun(config);
+    if (dryRun) {
         console.log(
-            "  Attempting fallback regex search for calendar_api_id in HTML content..."
+            "\x1b[33mDry run enabled: registrations will be prepared but never submitted.\x1b[0m"
         );
-        const regex = /"calendar_api_id"\s*:\s*"(cal-[a-zA-Z0-9]+)"/;
-        const htmlMatch = pageContent.match(regex);
-        if (htmlMatch && htmlMatch[1]) {
-            console.log(
-                `  Extracted calendar_api_id using general HTML fallback regex: ${htmlMatch[1]}`
-            );
-            return htmlMatch[1];
-        }
-
-        console.error(
-            "  Could not extract calendar_api_id from page using any method."
-        );
-        return null;
-    } catch (error) {
-        console.error(
-            `  Error fetching or processing calendar page ${calendarUrl} for API ID:`,
-            error
-        );
-        return null;
     }
-}
-// --- End Helper Function ---
-
-// --- Main API Flow Function ---
-async function mainApiFlow() {
-    const stealthPlugin = stealth();
-    chromium.use(stealthPlugin);
-
-    const config = await readConfig();
-    const browserConfig = getBrowserConfig(config["BROWSER"]);
-
-    console.log(
-        `Launching ${config["BROWSER"]} (${browserConfig.executablePath}) with profile (${browserConfig.userDataDir}) using stealth...`
-    );
-
-    const context: BrowserContext = await chromium.launchPersistentContext(
-        browserConfig.userDataDir,
-        {
-            headless: false,
-            executablePath: browserConfig.executablePath,
-            args: ["--disable-blink-features=AutomationControlled"],
-        }
-    );
+    const reviewAnswers = isReviewEnabled(config);
 
-    console.log("Persistent context launched. Getting initial page...");
-    const page = context.pages()[0];
-    if (!page) {
+    const profile = await readProfile(config["PROFILE_FILE"] || undefined);
+    const loginResult = await loginWithSavedSession(config, profile);
+    if (!loginResult || !loginResult.loggedIn || !loginResult.cookieString) {
         console.error(
-            "Failed to get initial page from persistent context. Exiting."
+            "\x1b[31mNot logged in to Luma, registrations would fail. Exiting.\x1b[0m"
         );
-        await context.close();
-        return;
+        return null;
     }
-    console.log("Initial page obtained.");
+    const client = new LumaClient(loginResult.cookieString, config);
 
     const processingFailures: string[] = [];
     const successfulRegistrations: string[] = [];
+    const dryRunReport: DryRunReportEntry[] = [];
+    const scheduleConflicts: string[] = [];
+    const parkedForReview: string[] = [];
+    let runAborted = false;
+    const summary = (): ApiFlowSummary => ({
+        registered: successfulRegistrations,
+        conflicts: scheduleConflicts,
+        parked: parkedForReview,
+        failures: processingFailures,
+        aborted: runAborted,
+    });
 
     try {
-        const loginUrl = "https://luma.com/signin";
-        console.log(`Navigating to login page: ${loginUrl}...`);
-        await page.goto(loginUrl, { waitUntil: "networkidle", timeout: 60000 });
-        console.log(
-            `Successfully navigated to ${loginUrl}. Please log in if prompted.`
+        const ledger = await loadLedger(
+            config["LEDGER_FILE"] || undefined,
+            dryRun
         );
-
-        console.log(
-            "Waiting for redirection to https://luma.com/home after login..."
+        await loadAnswerMemory(config);
+        await loadProfileTranslations(config);
+        const reviewQueue = await loadReviewQueue(
+            config["REVIEW_QUEUE_FILE"] || undefined,
+            dryRun
         );
-        const homeUrl = "https://luma.com/home";
-        const loginCheckTimeout = 180000;
-        const checkInterval = 2000;
-        let currentTime = 0;
-        let loggedIn = false;
-
-        while (currentTime < loginCheckTimeout) {
-            if (page.url() === homeUrl) {
-                console.log("Redirected to home page. Login successful.");
-                loggedIn = true;
-                break;
-            }
-            await page.waitForTimeout(checkInterval);
-            currentTime += checkInterval;
-            if (currentTime % 10000 === 0) {
-                console.log(
-                    `Still waiting for login, current URL: ${page.url()} (${
-                        currentTime / 1000
-                    }s passed)`
-                );
-            }
-        }
-
-        if (!loggedIn) {
-            console.warn(
-                `Timed out waiting for login redirection to ${homeUrl}. Proceeding anyway...`
-            );
-        }
-
-        const profile = await readProfile();
+        const minConfidence = readMinConfidence(config);
 
-        const eventCalendarUrl = config["EVENT_CALENDAR_URL"]; // Reverted to EVENT_CALENDAR_URL
-        if (!eventCalendarUrl) {
+        const eventSourceUrls = readEventSources(config);
+        if (eventSourceUrls.length === 0) {
             throw new Error(
-                "EVENT_CALENDAR_URL not found in config.txt. Please add it (e.g., EVENT_CALENDAR_URL=https://lu.ma/u/xxxx/events)."
+                "No event sources found in config.txt. Please add EVENT_SOURCES (comma-separated calendar, profile or event URLs) or EVENT_CALENDAR_URL (e.g., EVENT_CALENDAR_URL=https://luma.com/ethcc)."
             );
         }
 
-        // Extract cookies after login
-        let cookieString: string | null = null;
-        if (loggedIn) {
-            try {
-                const cookies = await context.cookies();
-                cookieString = cookies
-                    .map((c) => `${c.name}=${c.value}`)
-                    .join("; ");
-                console.log("Successfully extracted cookies.");
-                // console.log('Cookies:', cookieString); // Optional: for debugging
-            } catch (e) {
-                console.warn("Failed to extract cookies after login:", e);
-            }
-        }
-
-        // We have the cookies, we can close the browser now.
-        console.log("Closing browser as cookies are extracted...");
-        await context.close();
-        console.log("Browser closed.");
-
-        // Get Calendar API ID from the URL using HTTP request with cookies
-        const calendarApiId = await getCalendarApiId(
-            eventCalendarUrl,
-            cookieString
+        // Resolve every source (calendar, profile or event page) and merge their events
+        const allEventEntries = await fetchEntriesFromSources(
+            eventSourceUrls,
+            client
         );
 
-        if (!calendarApiId) {
-            console.error(
-                `Failed to retrieve calendar_api_id from ${eventCalendarUrl}. Exiting.`
-            );
-            return;
+        if (allEventEntries.length === 0) {
+            console.log("No event entries found from the API. Exiting.");
+            return summary();
         }
         console.log(
-            `Using Calendar API ID: ${calendarApiId} extracted from ${eventCalendarUrl}`
+            `Found ${allEventEntries.length} unique event entries across ${eventSourceUrls.length} source(s).`
         );
 
-        const allEventEntries = await fetchAllEventEntriesFromCalendarApi(
-            calendarApiId,
-            cookieString
+        let eventEntries = allEventEntries;
+        const filterRules = await loadEventFilterRules(
+            config["EVENT_FILTERS_FILE"] || undefined
         );
+        if (filterRules) {
+            const filterResult = applyEventFilters(allEventEntries, filterRules);
+            await writeFilterReport(
+                filterResult,
+                config["FILTER_REPORT_FILE"] || undefined
+            );
+            eventEntries = filterResult.included;
+        }
 
-        if (allEventEntries.length === 0) {
-            console.log("No event entries found from the API. Exiting.");
-            return;
+        // Events already handled are skipped below anyway, only the others are worth scoring.
+        // Those we registered for count toward RELEVANCE_TOP_N so repeated runs stop at N events;
+        // skipped or queued ones take no place
+        const relevanceOptions = readRelevanceOptions(config);
+        if (relevanceOptions) {
+            const pendingEntries = eventEntries.filter(
+                (e) => !getHandledEntry(ledger, e.event.api_id)
+            );
+            const handledCount = eventEntries.filter((e) => {
+                const outcome = getHandledEntry(ledger, e.event.api_id)?.outcome;
+                return outcome === "registered" || outcome === "already_registered";
+            }).length;
+            const scores = await rankEventsByRelevance(
+                pendingEntries,
+                relevanceOptions,
+                config,
+                client
+            );
+            const ranking = selectRelevantEntries(
+                pendingEntries,
+                scores,
+                relevanceOptions,
+                handledCount
+            );
+            await writeRankingReport(ranking, relevanceOptions);
+            eventEntries = ranking.selected;
         }
+
+        const scheduleOptions = readScheduleOptions(config);
+        const personalSchedule = buildPersonalSchedule(
+            allEventEntries,
+            ledger,
+            scheduleOptions
+        );
         console.log(
-            `Found ${allEventEntries.length} total event entries from calendar API.`
+            `\nPersonal schedule has ${personalSchedule.length} committed event(s)${
+                scheduleOptions.includePending ? " (including pending)" : ""
+            }:`
+        );
+        personalSchedule.forEach((item) =>
+            console.log(`  - ${describeScheduleItem(item)}`)
         );
 
-        for (const entry of allEventEntries) {
+        for (const entry of eventEntries) {
             const eventSlug = entry.event.url;
             const eventUrl = `https://luma.com/${eventSlug}`;
             const eventApiId = entry.event.api_id;
@@ -497,6 +268,37 @@ async function mainApiFlow() {
                     entry.status || "N/A"
                 }, Your Role Approval: ${entry.role?.approval_status || "N/A"}`
             );
+            console.log(`  Found by: ${(entry.sources || []).join(", ")}`);
+
+            // Event fields shared by every ledger record of this event
+            const eventRecord = {
+                event_api_id: eventApiId,
+                event_name: eventName,
+                event_url: eventUrl,
+                sources: entry.sources,
+                start_at: entry.event.start_at,
+                end_at: entry.event.end_at,
+                timezone: entry.event.timezone,
+                location: getLocationText(entry) || undefined,
+            };
+
+            const handledEntry = getHandledEntry(ledger, eventApiId);
+            if (handledEntry) {
+                console.log(
+                    `  Ledger already records "${handledEntry.outcome}" for "${eventName}" (${handledEntry.timestamp}). Skipping.`
+                );
+                successfulRegistrations.push(
+                    `${eventUrl} (Skipped, ledger: ${handledEntry.outcome})`
+                );
+                continue;
+            }
+
+            const recordFailure = (reason: string) =>
+                recordOutcome(ledger, {
+                    ...eventRecord,
+                    outcome: "failed",
+                    reason,
+                });
 
             // Check registration status based on the user's role approval_status for this specific calendar event entry
             const positiveRegistrationStatuses = [
@@ -515,8 +317,65 @@ async function mainApiFlow() {
                 successfulRegistrations.push(
                     `${eventUrl} (Skipped, role approval: ${entry.role.approval_status})`
                 );
+                await recordOutcome(ledger, {
+                    ...eventRecord,
+                    outcome: "already_registered",
+                    reason: `Role approval: ${entry.role.approval_status}`,
+                    approval_status: entry.role.approval_status,
+                });
                 continue;
             }
+
+            const scheduleItem = toScheduleItem(
+                eventRecord,
+                "pending",
+                scheduleOptions
+            );
+            if (scheduleItem) {
+                const conflicts = findScheduleConflicts(
+                    scheduleItem,
+                    personalSchedule,
+                    scheduleOptions
+                );
+                if (conflicts.length > 0) {
+                    conflicts.forEach((c) =>
+                        console.warn(
+                            `  Schedule conflict with ${describeScheduleItem(c.item)} (${
+                                c.overlapMinutes > 0
+                                    ? `${c.overlapMinutes} min overlap`
+                                    : `less than ${scheduleOptions.travelBufferMinutes} min between venues`
+                            })`
+                        )
+                    );
+                    const conflictNames = conflicts
+                        .map((c) => `"${c.item.event_name}"`)
+                        .join(", ");
+                    const hasPriority = outranksConflicts(
+                        scheduleItem,
+                        conflicts,
+                        scheduleOptions
+                    );
+                    if (scheduleOptions.conflictAction === "skip" && !hasPriority) {
+                        console.warn(
+                            `  Skipping ${eventName} because it conflicts with your schedule.`
+                        );
+                        scheduleConflicts.push(
+                            `${eventUrl} (Skipped, conflicts with ${conflictNames})`
+                        );
+                        await recordOutcome(ledger, {
+                            ...eventRecord,
+                            outcome: "conflict",
+                            reason: `Schedule conflict with ${conflictNames}`,
+                        });
+                        continue;
+                    }
+                    scheduleConflicts.push(
+                        `${eventUrl} (Registered anyway${
+                            hasPriority ? ", higher priority" : ""
+                        }, conflicts with ${conflictNames})`
+                    );
+                }
+            }
             
             // Add random delay between processing events (2-5 seconds)
             const eventDelay = Math.floor(Math.random() * 3000) + 2000;
@@ -525,7 +384,7 @@ async function mainApiFlow() {
             
             let success = false;
             try {
-                const eventDetails = await fetchEventDetails(eventApiId);
+                const eventDetails = await fetchEventDetails(eventApiId, client);
                 if (
                     !eventDetails ||
                     !eventDetails.registration_questions ||
@@ -537,6 +396,7 @@ async function mainApiFlow() {
                     processingFailures.push(
                         `${eventUrl} (Failed to fetch details)`
                     );
+                    await recordFailure("Failed to fetch details");
                     continue;
                 }
                 console.log(`  Fetched details for: ${eventName}`);
@@ -565,18 +425,21 @@ async function mainApiFlow() {
                     processingFailures.push(
                         `${eventUrl} (No free ticket found)`
                     );
+                    await recordFailure("No free ticket found");
                     continue;
                 }
                 console.log(
                     `  Selected ticket: ${suitableTicket.name} (ID: ${suitableTicket.api_id}, Type: ${suitableTicket.type})`
                 );
 
-                const registrationAnswers = await prepareRegistrationAnswers(
+                const preparedAnswers = await prepareRegistrationAnswers(
                     eventDetails.registration_questions,
                     profile,
                     eventName,
-                    config
+                    config,
+                    eventDetails.context
                 );
+                let registrationAnswers = preparedAnswers.answers;
 
                 if (
                     !registrationAnswers ||
@@ -592,6 +455,9 @@ async function mainApiFlow() {
                     processingFailures.push(
                         `${eventUrl} (Answer preparation failed for required questions)`
                     );
+                    await recordFailure(
+                        "Answer preparation failed for required questions"
+                    );
                     continue;
                 }
                 if (
@@ -604,44 +470,128 @@ async function mainApiFlow() {
                     );
                 }
 
-                const payload = {
-                    event_api_id: eventApiId,
-                    name: `${profile["Name"]}`,
-                    first_name:
-                        profile["First Name"] ||
-                        profile["Name"]?.split(" ")[0] ||
-                        "",
-                    last_name:
-                        profile["Last Name"] ||
-                        profile["Name"]?.split(" ").slice(1).join(" ") ||
-                        "",
-                    email: profile["Email"],
-                    phone_number: profile["WhatsApp"] || profile["Phone"],
-                    ticket_type_to_selection: {
-                        [suitableTicket.api_id]: { count: 1, amount: 0 },
-                    },
-                    registration_answers: registrationAnswers,
-                    for_waitlist: false,
-                    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-                    coupon_code: null,
-                    currency: null,
-                    eth_address_info: null,
-                    event_invite_api_id: null,
-                    expected_amount_cents: 0,
-                    expected_amount_discount: 0,
-                    expected_amount_tax: 0,
-                    opened_from: null,
-                    payment_currency: null,
-                    payment_method: null,
-                    solana_address: null,
-                    solana_address_info: null,
-                    token_gate_info: null,
-                };
+                if (reviewAnswers) {
+                    const decision = await reviewRegistrationAnswers(
+                        eventName,
+                        eventUrl,
+                        eventDetails.registration_questions,
+                        registrationAnswers,
+                        preparedAnswers.confidence,
+                        minConfidence
+                    );
+                    if (decision.action === "abort") {
+                        console.warn("  Run aborted during answer review.");
+                        runAborted = true;
+                        break;
+                    }
+                    if (decision.action === "skip") {
+                        console.log(`  Skipped ${eventName} during review.`);
+                        successfulRegistrations.push(
+                            `${eventUrl} (Skipped during review)`
+                        );
+                        await recordOutcome(ledger, {
+                            ...eventRecord,
+                            outcome: "skipped",
+                            reason: "Skipped during answer review",
+                            registration_answers: registrationAnswers,
+                            prompt_versions: preparedAnswers.prompt_versions,
+                            llm_usage: preparedAnswers.llm_usage,
+                        });
+                        continue;
+                    }
+                    registrationAnswers = decision.answers;
+                } else {
+                    // Guessed or placeholder answers to required questions wait for a human
+                    const lowConfidenceIds = findLowConfidenceQuestions(
+                        eventDetails.registration_questions,
+                        preparedAnswers.confidence,
+                        minConfidence
+                    );
+                    if (lowConfidenceIds.length > 0) {
+                        const labels = eventDetails.registration_questions
+                            .filter((q) => lowConfidenceIds.includes(q.id))
+                            .map((q) => `"${q.label}"`)
+                            .join(", ");
+                        console.warn(
+                            `  ${lowConfidenceIds.length} required answer(s) below confidence ${minConfidence} for ${eventName} (${labels}). Parking the event in the review queue.`
+                        );
+                        await enqueueForReview(reviewQueue, {
+                            event_api_id: eventApiId,
+                            event_name: eventName,
+                            event_url: eventUrl,
+                            sources: entry.sources,
+                            start_at: entry.event.start_at,
+                            ticket: suitableTicket,
+                            questions: eventDetails.registration_questions,
+                            answers: registrationAnswers,
+                            confidence: preparedAnswers.confidence,
+                            prompt_versions: preparedAnswers.prompt_versions,
+                            llm_usage: preparedAnswers.llm_usage,
+                            low_confidence_question_ids: lowConfidenceIds,
+                        });
+                        parkedForReview.push(`${eventUrl} (${labels})`);
+                        if (dryRun) {
+                            dryRunReport.push({
+                                event_api_id: eventApiId,
+                                event_name: eventName,
+                                event_url: eventUrl,
+                                sources: entry.sources,
+                                action: "review_queue",
+                                prompt_versions: preparedAnswers.prompt_versions,
+                                llm_usage: preparedAnswers.llm_usage,
+                                registration_answers: registrationAnswers,
+                                low_confidence_questions: eventDetails.registration_questions
+                                    .filter((q) => lowConfidenceIds.includes(q.id))
+                                    .map((q) => q.label),
+                            });
+                        }
+                        await recordOutcome(ledger, {
+                            ...eventRecord,
+                            outcome: "queued",
+                            reason: `Low-confidence answers: ${labels}`,
+                            ticket: {
+                                api_id: suitableTicket.api_id,
+                                name: suitableTicket.name,
+                                type: suitableTicket.type,
+                            },
+                            registration_answers: registrationAnswers,
+                            prompt_versions: preparedAnswers.prompt_versions,
+                            llm_usage: preparedAnswers.llm_usage,
+                        });
+                        continue;
+                    }
+                }
+
+                const payload = buildRegistrationPayload(
+                    eventApiId,
+                    suitableTicket,
+                    registrationAnswers,
+                    profile
+                );
+
+                if (dryRun) {
+                    console.log(
+                        `  [Dry run] Not submitting registration for ${eventName}. Payload added to report.`
+                    );
+                    dryRunReport.push({
+                        event_api_id: eventApiId,
+                        event_name: eventName,
+                        event_url: eventUrl,
+                        sources: entry.sources,
+                        action: "submit",
+                        endpoint: REGISTRATION_API_URL,
+                        prompt_versions: preparedAnswers.prompt_versions,
+                        llm_usage: preparedAnswers.llm_usage,
+                        payload,
+                    });
+                    successfulRegistrations.push(`${eventUrl} (Dry run)`);
+                    continue;
+                }
 
                 console.log(`  Submitting registration for ${eventName}...`);
                 const submissionResult = await submitRegistration(
                     payload,
-                    cookieString,
+                    client,
                     eventUrl
                 );
 
@@ -653,6 +603,48 @@ async function mainApiFlow() {
                     );
                     success = true;
                     successfulRegistrations.push(eventUrl);
+                    const approvalStatus =
+                        extractApprovalStatus(submissionResult);
+                    if (
+                        scheduleItem &&
+                        (approvalStatus === "approved" ||
+                            scheduleOptions.includePending)
+                    ) {
+                        personalSchedule.push({
+                            ...scheduleItem,
+                            status:
+                                approvalStatus === "approved"
+                                    ? "approved"
+                                    : "pending",
+                        });
+                    }
+                    await recordOutcome(ledger, {
+                        ...eventRecord,
+                        outcome: "registered",
+                        ticket: {
+                            api_id: suitableTicket.api_id,
+                            name: suitableTicket.name,
+                            type: suitableTicket.type,
+                        },
+                        registration_answers: registrationAnswers,
+                        prompt_versions: preparedAnswers.prompt_versions,
+                        llm_usage: preparedAnswers.llm_usage,
+                        response: submissionResult,
+                        approval_status: approvalStatus || undefined,
+                    });
+                    // Submitted answers are the approved ones, reuse them for the next events.
+                    // Unreviewed defaults are not worth remembering.
+                    rememberAnswers(
+                        eventDetails.registration_questions,
+                        reviewAnswers
+                            ? registrationAnswers
+                            : registrationAnswers.filter(
+                                  (a) =>
+                                      preparedAnswers.confidence[a.question_id]
+                                          ?.provenance !== "default"
+                              )
+                    );
+                    await saveAnswerMemory();
                 } else {
                     console.error(
                         `  Registration submission failed for ${eventName}.`
@@ -660,6 +652,19 @@ async function mainApiFlow() {
                     processingFailures.push(
                         `${eventUrl} (Submission API call failed)`
                     );
+                    await recordOutcome(ledger, {
+                        ...eventRecord,
+                        outcome: "failed",
+                        reason: "Submission API call failed",
+                        ticket: {
+                            api_id: suitableTicket.api_id,
+                            name: suitableTicket.name,
+                            type: suitableTicket.type,
+                        },
+                        registration_answers: registrationAnswers,
+                        prompt_versions: preparedAnswers.prompt_versions,
+                        llm_usage: preparedAnswers.llm_usage,
+                    });
                 }
             } catch (eventError) {
                 console.error(
@@ -669,10 +674,27 @@ async function mainApiFlow() {
                 processingFailures.push(
                     `${eventUrl} (Runtime error in API flow for ${eventName})`
                 );
+                await recordFailure(`Runtime error: ${String(eventError)}`);
             }
         }
 
-        console.log("\n--- Finished processing all events via API flow ---");
+        console.log(
+            runAborted
+                ? "\n--- API flow aborted by user, remaining events were not processed ---"
+                : "\n--- Finished processing all events via API flow ---"
+        );
+
+        if (dryRun) {
+            await writeDryRunReport(
+                dryRunReport,
+                config["DRY_RUN_REPORT_FILE"] || undefined
+            );
+        }
+
+        await writeIcsFile(
+            collectIcsEvents(allEventEntries, ledger),
+            config["ICS_EXPORT_FILE"] || undefined
+        );
 
         if (successfulRegistrations.length > 0) {
             console.log(
@@ -681,6 +703,20 @@ async function mainApiFlow() {
             successfulRegistrations.forEach((url) => console.log(`  - ${url}`));
         }
 
+        if (scheduleConflicts.length > 0) {
+            console.warn(
+                `\n--- Schedule conflicts for ${scheduleConflicts.length} event(s): ---`
+            );
+            scheduleConflicts.forEach((c) => console.warn(`  - ${c}`));
+        }
+
+        if (parkedForReview.length > 0) {
+            console.warn(
+                `\n--- Parked ${parkedForReview.length} event(s) in the review queue (run npm run review-queue): ---`
+            );
+            parkedForReview.forEach((p) => console.warn(`  - ${p}`));
+        }
+
         if (processingFailures.length > 0) {
             console.warn(
                 `\n--- API Processing failed for ${processingFailures.length} event(s): ---`
@@ -692,16 +728,23 @@ async function mainApiFlow() {
             );
         }
 
+        printLLMUsageSummary();
+
         await new Promise((resolve) => setTimeout(resolve, 10000));
+        return summary();
     } catch (error) {
         console.error(
             "\x1b[31mAn error occurred in mainApiFlow execution:\x1b[0m",
             error
         );
+        return null;
     } finally {
-        // Browser is already closed - no cleanup needed
+        // Browser is already closed by loginWithBrowser - no cleanup needed
+        await saveClientSession(client, config);
         console.log("API flow completed.");
     }
 }
 
-mainApiFlow();
+if (require.main === module) {
+    mainApiFlow();
+}
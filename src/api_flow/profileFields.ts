@@ -0,0 +1,133 @@
+// --- Profile Field Selection ---
+// Decides which profile.txt fields go into an LLM prompt. Each question only brings the fields
+// it plausibly needs (a T-shirt question gets the T-shirt size, not the phone number), and keys
+// listed in PROFILE_NEVER_SHARE_KEYS are never sent at all.
+
+export interface ProfileFieldQuestion {
+    label: string;
+    type?: string;
+    options?: string[];
+}
+
+interface ProfileFieldTopic {
+    name: string;
+    labelPatterns: RegExp[]; // Tested against the lowercased label
+    questionTypes?: string[];
+    profileKeys: string[]; // Profile keys (or synonyms) the topic needs
+}
+
+// Fields describing who the user is, enough for open questions and for choosing a ticket
+const GENERAL_KEYS = ['Designation', 'Job Title', 'Role', 'Title', 'Type', 'Company', 'Organization', 'Bio', 'About'];
+const NAME_KEYS = ['Name', 'Full Name', 'First Name', 'Last Name'];
+
+const PROFILE_FIELD_TOPICS: ProfileFieldTopic[] = [
+    // The user's own name only: "Company name" or "Name of a friend you are bringing" is someone else's
+    {
+        name: 'name',
+        labelPatterns: [/(^|\b(your|my|full|first|last|given|family|legal|preferred|display)\s+)name\b(?!\s+of\b)/, /surname/],
+        profileKeys: NAME_KEYS,
+    },
+    { name: 'email', labelPatterns: [/e-?mail/], questionTypes: ['email'], profileKeys: ['Email', 'E-mail'] },
+    { name: 'phone', labelPatterns: [/phone/, /whats\s*app/, /mobile/], questionTypes: ['phone-number'], profileKeys: ['Phone', 'Phone Number', 'WhatsApp'] },
+    { name: 'linkedin', labelPatterns: [/linked\s*in/], questionTypes: ['linkedin'], profileKeys: ['LinkedIn', 'LinkedIn Profile', 'LinkedIn URL'] },
+    { name: 'twitter', labelPatterns: [/twitter/, /x\.com/, /\bx\s*(handle|account|username|profile)/], profileKeys: ['Twitter', 'x.com', 'X'] },
+    { name: 'telegram', labelPatterns: [/telegram/, /\btg\b/], profileKeys: ['Telegram', 'Telegram Handle'] },
+    { name: 'github', labelPatterns: [/git\s*hub/], profileKeys: ['Github', 'GitHub Link'] },
+    { name: 'socials', labelPatterns: [/social/, /handle/, /website/, /\burl\b/, /link/], profileKeys: ['Company Website', 'Website', 'Twitter', 'x.com', 'LinkedIn', 'Github', 'Telegram'] },
+    { name: 'location', labelPatterns: [/city/, /country/, /location/, /where are you/, /based/, /from\?/], profileKeys: ['Location', 'City', 'Country'] },
+    { name: 't-shirt', labelPatterns: [/shirt/, /size/], profileKeys: ['T-shirt Size', 'T-Shirt Size', 'Shirt Size'] },
+    { name: 'diet', labelPatterns: [/allerg/, /diet/, /food/, /vegan|vegetarian/], profileKeys: ['Allergies', 'Alergies', 'Dietary Restrictions'] },
+    {
+        name: 'work',
+        labelPatterns: [/company/, /organi[sz]ation/, /employer/, /project/, /startup/, /team/, /industry/, /stage/, /work/, /represent/, /affiliat/],
+        profileKeys: ['Company', 'Organization', 'Company Website', 'Designation', 'Job Title', 'Role', 'Type'],
+    },
+    {
+        name: 'role',
+        labelPatterns: [/role/, /title/, /position/, /describe/, /profession/, /occupation/, /what do you do/, /background/, /\bare you an?\b/, /which of (these|the following)/],
+        profileKeys: ['Designation', 'Job Title', 'Role', 'Title', 'Type', 'Company'],
+    },
+    {
+        name: 'goals',
+        labelPatterns: [/why/, /hope/, /goal/, /interest/, /looking (for|to)/, /hir(e|ing)/, /invest/, /rais(e|ing)/, /attend/, /expect/],
+        profileKeys: [...GENERAL_KEYS, 'Interests', 'Goals', 'Looking For'],
+    },
+];
+
+function normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+export function readNeverShareKeys(config: Record<string, string>): string[] {
+    return (config['PROFILE_NEVER_SHARE_KEYS'] || '')
+        .split(',')
+        .map(k => k.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Profile keys a question plausibly needs: the keys of every matching topic, plus any profile
+ * key the label mentions by name. Questions matching nothing get the general fields.
+ */
+function keysForQuestion(question: ProfileFieldQuestion, profileKeys: string[]): string[] {
+    const label = question.label.toLowerCase();
+    const wanted = new Set<string>();
+    for (const topic of PROFILE_FIELD_TOPICS) {
+        if (topic.questionTypes?.includes(question.type || '') || topic.labelPatterns.some(p => p.test(label))) {
+            topic.profileKeys.forEach(k => wanted.add(normalizeKey(k)));
+        }
+    }
+    // The name keys are left to the name topic: "Company name" mentions "Name" too
+    const nameKeys = NAME_KEYS.map(normalizeKey);
+    const normalizedLabel = normalizeKey(label);
+    for (const key of profileKeys) {
+        const normalized = normalizeKey(key);
+        if (normalized.length > 2 && !nameKeys.includes(normalized) && normalizedLabel.includes(normalized)) {
+            wanted.add(normalized);
+        }
+    }
+    if (wanted.size === 0) {
+        GENERAL_KEYS.forEach(k => wanted.add(normalizeKey(k)));
+    }
+    return profileKeys.filter(k => wanted.has(normalizeKey(k)));
+}
+
+/**
+ * Profile keys that may be sent to the LLM for these questions, in profile order.
+ * An empty question list selects the general fields only (e.g. for ticket selection).
+ */
+export function selectProfileFieldKeys(
+    questions: ProfileFieldQuestion[],
+    profile: Record<string, string>,
+    config: Record<string, string>
+): string[] {
+    const neverShare = new Set(readNeverShareKeys(config).map(normalizeKey));
+    const shareableKeys = Object.keys(profile).filter(k => !neverShare.has(normalizeKey(k)));
+
+    const selectedKeys = new Set<string>();
+    const targets = questions.length > 0 ? questions : [{ label: '' }];
+    for (const question of targets) {
+        keysForQuestion(question, shareableKeys).forEach(k => selectedKeys.add(k));
+    }
+    return shareableKeys.filter(k => selectedKeys.has(k));
+}
+
+/**
+ * Returns the subset of the profile that may be sent to the LLM for these questions.
+ * Pass an empty question list to get the general fields only (e.g. for ticket selection).
+ */
+export function selectProfileFields(
+    questions: ProfileFieldQuestion[],
+    profile: Record<string, string>,
+    config: Record<string, string>
+): Record<string, string> {
+    const selected: Record<string, string> = {};
+    selectProfileFieldKeys(questions, profile, config).forEach(k => {
+        selected[k] = profile[k];
+    });
+
+    const withheld = Object.keys(profile).filter(k => !(k in selected));
+    console.log(`  Profile fields sent to the LLM: ${Object.keys(selected).join(', ') || 'none'}${withheld.length > 0 ? ` (withheld: ${withheld.join(', ')})` : ''}`);
+    return selected;
+}
+// --- End Profile Field Selection ---
@@ -0,0 +1,141 @@
+import { APIRegistrationQuestion } from './api_helper';
+
+// --- Deterministic Profile Matcher ---
+// Answers registration questions straight from profile.txt when the question type or label
+// clearly asks for a profile field (LinkedIn, phone, Telegram, T-shirt size...), so only the
+// remaining questions need the LLM.
+
+export interface ProfileMatch {
+    questionId: string;
+    answer: string | string[];
+    profileKey: string; // Profile key the answer was read from
+    rule: string; // Name of the matching rule, for logging
+}
+
+interface ProfileMatchRule {
+    name: string;
+    questionTypes?: string[]; // Question types that always map to this rule
+    labelPatterns: RegExp[]; // Tested against the lowercased label
+    excludeLabelPatterns?: RegExp[];
+    profileKeys: string[]; // Synonyms, first non-empty one wins
+}
+
+// Order matters: more specific rules (company website) come before broader ones (company)
+const PROFILE_MATCH_RULES: ProfileMatchRule[] = [
+    { name: 'linkedin', questionTypes: ['linkedin'], labelPatterns: [/linked\s*in/], profileKeys: ['LinkedIn', 'LinkedIn Profile', 'LinkedIn URL'] },
+    { name: 'phone', questionTypes: ['phone-number'], labelPatterns: [/phone/, /whats\s*app/, /mobile/], profileKeys: ['Phone', 'WhatsApp', 'Phone Number'] },
+    { name: 'email', questionTypes: ['email'], labelPatterns: [/e-?mail/], profileKeys: ['Email', 'E-mail'] },
+    { name: 'telegram', labelPatterns: [/telegram/, /\btg\b/], profileKeys: ['Telegram', 'Telegram Handle'] },
+    { name: 'twitter', labelPatterns: [/twitter/, /x\.com/, /\bx\s*(handle|account|username|profile)/], profileKeys: ['Twitter', 'x.com', 'X'] },
+    { name: 'github', labelPatterns: [/git\s*hub/], profileKeys: ['Github', 'GitHub Link'] },
+    { name: 'website', labelPatterns: [/website/, /company (url|site)/], profileKeys: ['Company Website', 'Website'] },
+    { name: 'first-name', labelPatterns: [/^first name/, /given name/], profileKeys: ['First Name'] },
+    { name: 'last-name', labelPatterns: [/^last name/, /surname/, /family name/], profileKeys: ['Last Name'] },
+    { name: 'full-name', labelPatterns: [/^(your )?(full )?name\??$/, /what is your name/], profileKeys: ['Name', 'Full Name'] },
+    {
+        name: 'company',
+        labelPatterns: [/company/, /organi[sz]ation/, /employer/, /affiliat/, /who do you work for/],
+        // Open questions about the company or a project want a description, not the name
+        excludeLabelPatterns: [/size/, /stage/, /type of/, /industry/, /describe/, /tell us/, /about your/, /building/, /why/],
+        profileKeys: ['Company', 'Organization'],
+    },
+    {
+        name: 'job-title',
+        // Whole labels only: "Title of your talk" or "Your role in the project" are not the job title
+        labelPatterns: [
+            /^(what is |what's )?(your )?(current )?(job )?(title|role|position|designation)[?:*\s]*$/,
+            /^(your )?(current )?job title\b/,
+            /^(your )?role\s*\/\s*(job )?title[?:*\s]*$/,
+        ],
+        excludeLabelPatterns: [/talk/, /presentation/, /session/, /project/],
+        profileKeys: ['Designation', 'Job Title', 'Role', 'Title'],
+    },
+    { name: 'city', labelPatterns: [/\bcity\b/, /where are you (based|located|from)/, /^location/], profileKeys: ['Location', 'City'] },
+    { name: 't-shirt', labelPatterns: [/t-?\s*shirt/, /shirt size/], profileKeys: ['T-shirt Size', 'T-Shirt Size', 'Shirt Size'] },
+    { name: 'allergies', labelPatterns: [/allerg/, /dietary/], profileKeys: ['Allergies', 'Alergies', 'Dietary Restrictions'] },
+];
+
+// Yes/no questions that merely mention a field ("Do you have a GitHub?") are left to the LLM
+const YES_NO_QUESTION = /^(are|do|did|have|has|will|would|can|could|is)\b/;
+
+const CHOICE_TYPES = ['dropdown', 'select'];
+const MULTI_CHOICE_TYPES = ['multiselect', 'multi-select'];
+const BOOLEAN_TYPES = ['agree-check', 'terms'];
+
+function normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function isMissingValue(value: string | undefined): boolean {
+    if (!value) return true;
+    return ['', 'n/a', 'na', 'none', '-'].includes(value.trim().toLowerCase());
+}
+
+function findProfileValue(profile: Record<string, string>, keys: string[]): { key: string; value: string } | null {
+    const normalizedProfile = new Map(Object.keys(profile).map(k => [normalizeKey(k), k]));
+    for (const key of keys) {
+        const profileKey = normalizedProfile.get(normalizeKey(key));
+        if (profileKey && !isMissingValue(profile[profileKey])) {
+            return { key: profileKey, value: profile[profileKey] };
+        }
+    }
+    return null;
+}
+
+function findRule(question: APIRegistrationQuestion): ProfileMatchRule | null {
+    const label = question.label.toLowerCase().trim();
+    const byType = PROFILE_MATCH_RULES.find(r => r.questionTypes?.includes(question.question_type));
+    if (byType) return byType;
+    if (YES_NO_QUESTION.test(label)) return null;
+    return PROFILE_MATCH_RULES.find(r =>
+        r.labelPatterns.some(p => p.test(label)) &&
+        !(r.excludeLabelPatterns || []).some(p => p.test(label))
+    ) || null;
+}
+
+/**
+ * Returns the answer for a question if it can be read directly from the profile, null otherwise.
+ * For dropdowns the profile value must be one of the options, so answers are never invented.
+ */
+export function matchQuestionToProfile(
+    question: APIRegistrationQuestion,
+    profile: Record<string, string>
+): ProfileMatch | null {
+    if (BOOLEAN_TYPES.includes(question.question_type)) return null;
+
+    const rule = findRule(question);
+    if (!rule) return null;
+    const found = findProfileValue(profile, rule.profileKeys);
+    if (!found) return null;
+
+    const options = question.options || [];
+    let answer: string | string[] = found.value;
+
+    if (CHOICE_TYPES.includes(question.question_type)) {
+        const option = options.find(o => o.toLowerCase() === found.value.toLowerCase());
+        if (!option) return null;
+        answer = option;
+    } else if (MULTI_CHOICE_TYPES.includes(question.question_type)) {
+        const values = found.value.split(',').map(v => v.trim().toLowerCase());
+        const selected = options.filter(o => values.includes(o.toLowerCase()));
+        if (selected.length === 0) return null;
+        answer = selected;
+    }
+
+    return { questionId: question.id, answer, profileKey: found.key, rule: rule.name };
+}
+
+export function matchQuestionsToProfile(
+    questions: APIRegistrationQuestion[],
+    profile: Record<string, string>
+): Map<string, ProfileMatch> {
+    const matches = new Map<string, ProfileMatch>();
+    for (const question of questions) {
+        const match = matchQuestionToProfile(question, profile);
+        if (match) {
+            matches.set(question.id, match);
+        }
+    }
+    return matches;
+}
+// --- End Deterministic Profile Matcher ---
@@ -0,0 +1,95 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// --- Prompt Templates ---
+// LLM prompts live in prompts/<name>.txt (or PROMPTS_DIR). Each file starts with a small header
+// ending with a "---" line, holding at least the template version, followed by the prompt text
+// with {{named}} placeholders:
+//
+//   version: 2
+//   ---
+//   Profile: {{profile}}, Options: [{{options}}]...
+//
+// Bump the version whenever the text changes: it is recorded with every submission.
+
+export type PromptName = 'ticket' | 'batch' | 'answers' | 'answer_repair' | 'profile_translation' | 'relevance';
+
+export interface PromptTemplate {
+    name: PromptName;
+    version: string;
+    body: string;
+    filePath: string;
+}
+
+const DEFAULT_PROMPTS_DIR = path.resolve(__dirname, '../../prompts');
+const PLACEHOLDER = /\{\{\s*([a-zA-Z0-9_]+)\s*\}\}/g;
+
+// Inline templates from config.txt used before prompts/ existed
+const LEGACY_TEMPLATE_KEYS: Partial<Record<PromptName, string>> = {
+    ticket: 'LLM_TICKET_PROMPT_TEMPLATE',
+    batch: 'LLM_BATCH_PROMPT_TEMPLATE',
+};
+
+const templateCache = new Map<string, PromptTemplate>();
+
+function parseTemplateFile(name: PromptName, filePath: string, content: string): PromptTemplate {
+    const lines = content.replace(/\r\n/g, '\n').split('\n');
+    const separatorIndex = lines.findIndex(line => line.trim() === '---');
+    if (separatorIndex === -1) {
+        throw new Error(`Prompt template ${filePath} has no "---" line after its header.`);
+    }
+
+    const header: Record<string, string> = {};
+    for (const line of lines.slice(0, separatorIndex)) {
+        const colonIndex = line.indexOf(':');
+        if (colonIndex > 0) {
+            header[line.substring(0, colonIndex).trim().toLowerCase()] = line.substring(colonIndex + 1).trim();
+        }
+    }
+    if (!header['version']) {
+        throw new Error(`Prompt template ${filePath} has no "version:" in its header.`);
+    }
+
+    const body = lines.slice(separatorIndex + 1).join('\n').replace(/\n$/, '');
+    return { name, version: header['version'], body, filePath };
+}
+
+/**
+ * Loads a prompt template, reading each file only once per run.
+ */
+export async function loadPromptTemplate(name: PromptName, config: Record<string, string>): Promise<PromptTemplate> {
+    const legacyKey = LEGACY_TEMPLATE_KEYS[name];
+    if (legacyKey && config[legacyKey]) {
+        console.warn(`\x1b[33m${legacyKey} in config.txt is no longer used. Edit prompts/${name}.txt instead.\x1b[0m`);
+    }
+
+    const filePath = path.join(config['PROMPTS_DIR'] || DEFAULT_PROMPTS_DIR, `${name}.txt`);
+    const cached = templateCache.get(filePath);
+    if (cached) {
+        return cached;
+    }
+    const content = await fs.readFile(filePath, 'utf-8');
+    const template = parseTemplateFile(name, filePath, content);
+    templateCache.set(filePath, template);
+    return template;
+}
+
+/**
+ * Fills the {{placeholders}} of a template. Every placeholder needs a value, so a typo in a
+ * template fails loudly instead of sending "{{profil}}" to the model.
+ */
+export function renderPrompt(template: PromptTemplate, values: Record<string, string | number>): string {
+    const missing = new Set<string>();
+    const rendered = template.body.replace(PLACEHOLDER, (match, key: string) => {
+        if (!(key in values)) {
+            missing.add(key);
+            return match;
+        }
+        return String(values[key]);
+    });
+    if (missing.size > 0) {
+        throw new Error(`Prompt template ${template.filePath} uses unknown placeholder(s): ${[...missing].join(', ')}`);
+    }
+    return rendered;
+}
+// --- End Prompt Templates ---
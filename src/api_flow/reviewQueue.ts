@@ -0,0 +1,107 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+    AnswerConfidence,
+    APIRegistrationAnswer,
+    APIRegistrationQuestion,
+    APITicketType,
+} from "./api_helper";
+import { LLMUsageTotals } from "./llmUsage";
+
+const REVIEW_QUEUE_FILE = path.resolve(__dirname, "../../review_queue.json");
+const DEFAULT_MIN_CONFIDENCE = 0.5;
+
+export interface ReviewQueueItem {
+    event_api_id: string;
+    event_name: string;
+    event_url: string;
+    sources?: string[];
+    start_at?: string; // ISO date (UTC)
+    ticket: APITicketType; // Ticket chosen when the answers were prepared
+    questions: APIRegistrationQuestion[];
+    answers: APIRegistrationAnswer[];
+    confidence: Record<string, AnswerConfidence>; // Keyed by question id
+    prompt_versions?: Record<string, string>;
+    llm_usage?: LLMUsageTotals;
+    low_confidence_question_ids: string[];
+    queued_at: string; // ISO date
+}
+
+export interface ReviewQueue {
+    filePath: string;
+    items: Record<string, ReviewQueueItem>; // Keyed by event API id (evt-...)
+    readOnly: boolean; // Dry runs never write the queue
+}
+
+/**
+ * Minimum confidence every required answer needs for an event to be submitted without review.
+ * REVIEW_MIN_CONFIDENCE=0 disables the queue.
+ */
+export function readMinConfidence(config: Record<string, string>): number {
+    const value = Number(config["REVIEW_MIN_CONFIDENCE"]);
+    return config["REVIEW_MIN_CONFIDENCE"] && !isNaN(value) ? value : DEFAULT_MIN_CONFIDENCE;
+}
+
+/**
+ * Returns the ids of the required questions whose answer confidence is below the minimum.
+ */
+export function findLowConfidenceQuestions(
+    questions: APIRegistrationQuestion[],
+    confidence: Record<string, AnswerConfidence>,
+    minConfidence: number
+): string[] {
+    return questions
+        .filter((q) => q.required)
+        .filter((q) => (confidence[q.id]?.confidence ?? 0) < minConfidence)
+        .map((q) => q.id);
+}
+
+export async function loadReviewQueue(
+    filePath: string = REVIEW_QUEUE_FILE,
+    readOnly: boolean = false
+): Promise<ReviewQueue> {
+    try {
+        const data = await fs.readFile(filePath, "utf-8");
+        const items = JSON.parse(data) as Record<string, ReviewQueueItem>;
+        console.log(`Loaded review queue with ${Object.keys(items).length} event(s) from ${filePath}.`);
+        return { filePath, items, readOnly };
+    } catch (error: any) {
+        if (error.code === "ENOENT") {
+            return { filePath, items: {}, readOnly };
+        }
+        // Going on with an empty queue would drop every parked event on the next save
+        throw new Error(
+            `Could not read review queue ${filePath} (${error.message}). Fix or restore the file before running again.`
+        );
+    }
+}
+
+/**
+ * Writes the queue to a temporary file renamed over the queue, so an interrupted write
+ * never leaves a truncated queue behind.
+ */
+export async function saveReviewQueue(queue: ReviewQueue): Promise<void> {
+    if (queue.readOnly) {
+        return;
+    }
+    const tempPath = `${queue.filePath}.tmp`;
+    try {
+        await fs.writeFile(tempPath, JSON.stringify(queue.items, null, 2), "utf8");
+        await fs.rename(tempPath, queue.filePath);
+    } catch (error) {
+        console.error(`\x1b[31mError saving review queue ${queue.filePath}:\x1b[0m`, error);
+    }
+}
+
+export async function enqueueForReview(
+    queue: ReviewQueue,
+    item: Omit<ReviewQueueItem, "queued_at">
+): Promise<void> {
+    queue.items[item.event_api_id] = { ...item, queued_at: new Date().toISOString() };
+    await saveReviewQueue(queue);
+}
+
+export async function removeFromReviewQueue(queue: ReviewQueue, eventApiId: string): Promise<void> {
+    delete queue.items[eventApiId];
+    await saveReviewQueue(queue);
+}
@@ -0,0 +1,174 @@
+import { LumaCalendarEntry } from "./calendarApi";
+import { getLocalDateParts, getLocationText, isValidTimeZone } from "./eventFilters";
+import { RegistrationLedger } from "./ledger";
+
+export interface ScheduleItem {
+    event_api_id: string;
+    event_name: string;
+    start: number; // Epoch ms
+    end: number; // Epoch ms
+    timezone?: string;
+    location: string; // Empty for online events or unknown venues
+    status: "approved" | "pending";
+}
+
+export interface ScheduleOptions {
+    includePending: boolean; // Treat pending approvals as commitments too
+    travelBufferMinutes: number; // Minimum gap between events at different venues
+    defaultDurationMinutes: number; // Used when an event has no end time
+    conflictAction: "skip" | "flag"; // "flag" (default) registers anyway and lists the conflict
+    priorityKeywords: string[]; // Earlier keywords win; a higher priority event is registered despite conflicts
+}
+
+export interface ScheduleConflict {
+    item: ScheduleItem;
+    overlapMinutes: number; // Negative values mean the travel buffer is not respected
+}
+
+export function readScheduleOptions(config: Record<string, string>): ScheduleOptions {
+    return {
+        includePending: (config["SCHEDULE_INCLUDE_PENDING"] || "").toLowerCase() === "true",
+        travelBufferMinutes: Number(config["SCHEDULE_TRAVEL_BUFFER_MINUTES"] || 30),
+        defaultDurationMinutes: Number(config["SCHEDULE_DEFAULT_DURATION_MINUTES"] || 120),
+        conflictAction: config["SCHEDULE_CONFLICT_ACTION"] === "skip" ? "skip" : "flag",
+        priorityKeywords: (config["SCHEDULE_PRIORITY_KEYWORDS"] || "")
+            .split(",")
+            .map((k) => k.trim().toLowerCase())
+            .filter(Boolean),
+    };
+}
+
+/**
+ * Builds a schedule item from an event's times, or null if the event has no usable start time.
+ * An unknown timezone is dropped so printing the schedule cannot throw.
+ */
+export function toScheduleItem(
+    event: {
+        event_api_id: string;
+        event_name: string;
+        start_at?: string;
+        end_at?: string;
+        timezone?: string;
+        location?: string;
+    },
+    status: ScheduleItem["status"],
+    options: ScheduleOptions
+): ScheduleItem | null {
+    const start = event.start_at ? new Date(event.start_at).getTime() : NaN;
+    if (isNaN(start)) {
+        return null;
+    }
+    const givenEnd = event.end_at ? new Date(event.end_at).getTime() : NaN;
+    const end = isNaN(givenEnd) ? start + options.defaultDurationMinutes * 60000 : givenEnd;
+    return {
+        event_api_id: event.event_api_id,
+        event_name: event.event_name,
+        start,
+        end,
+        timezone: event.timezone && isValidTimeZone(event.timezone) ? event.timezone : undefined,
+        location: event.location || "",
+        status,
+    };
+}
+
+function normalizeApprovalStatus(status: string | null | undefined): ScheduleItem["status"] | null {
+    if (!status) return null;
+    const lower = status.toLowerCase();
+    if (lower === "approved") return "approved";
+    if (lower === "pending_approval" || lower === "waitlist") return "pending";
+    return null;
+}
+
+/**
+ * Collects the events we are committed to: approved roles from the fetched calendar entries
+ * and events registered through the ledger. Pending ones are only kept if includePending is set.
+ */
+export function buildPersonalSchedule(
+    entries: LumaCalendarEntry[],
+    ledger: RegistrationLedger,
+    options: ScheduleOptions
+): ScheduleItem[] {
+    const schedule = new Map<string, ScheduleItem>();
+    const keep = (status: ScheduleItem["status"] | null) =>
+        status === "approved" || (status === "pending" && options.includePending);
+
+    for (const entry of entries) {
+        const status = normalizeApprovalStatus(entry.role?.approval_status);
+        if (!keep(status)) continue;
+        const item = toScheduleItem(
+            {
+                event_api_id: entry.event.api_id,
+                event_name: entry.event.name,
+                start_at: entry.event.start_at,
+                end_at: entry.event.end_at,
+                timezone: entry.event.timezone,
+                location: getLocationText(entry),
+            },
+            status!,
+            options
+        );
+        if (item) schedule.set(item.event_api_id, item);
+    }
+
+    for (const ledgerEntry of Object.values(ledger.entries)) {
+        if (schedule.has(ledgerEntry.event_api_id)) continue;
+        if (ledgerEntry.outcome !== "registered" && ledgerEntry.outcome !== "already_registered") continue;
+        // Registrations without a known approval status are waiting for the host
+        const status =
+            normalizeApprovalStatus(ledgerEntry.approval_status) || "pending";
+        if (!keep(status)) continue;
+        const item = toScheduleItem(ledgerEntry, status, options);
+        if (item) schedule.set(item.event_api_id, item);
+    }
+
+    return Array.from(schedule.values()).sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Returns the schedule items that overlap the candidate. Events at different (or unknown)
+ * venues also conflict when the gap between them is shorter than the travel buffer.
+ */
+export function findScheduleConflicts(
+    candidate: ScheduleItem,
+    schedule: ScheduleItem[],
+    options: ScheduleOptions
+): ScheduleConflict[] {
+    const conflicts: ScheduleConflict[] = [];
+    for (const item of schedule) {
+        if (item.event_api_id === candidate.event_api_id) continue;
+        const sameVenue =
+            candidate.location !== "" &&
+            candidate.location.toLowerCase() === item.location.toLowerCase();
+        const buffer = sameVenue ? 0 : options.travelBufferMinutes * 60000;
+        const overlap = Math.min(candidate.end, item.end) - Math.max(candidate.start, item.start);
+        if (overlap + buffer > 0) {
+            conflicts.push({ item, overlapMinutes: Math.round(overlap / 60000) });
+        }
+    }
+    return conflicts;
+}
+
+function priorityRank(eventName: string, options: ScheduleOptions): number {
+    const lowerName = eventName.toLowerCase();
+    const index = options.priorityKeywords.findIndex((k) => lowerName.includes(k));
+    return index === -1 ? options.priorityKeywords.length : index;
+}
+
+/**
+ * True if the candidate matches a higher priority keyword than every conflicting event.
+ */
+export function outranksConflicts(
+    candidate: ScheduleItem,
+    conflicts: ScheduleConflict[],
+    options: ScheduleOptions
+): boolean {
+    const candidateRank = priorityRank(candidate.event_name, options);
+    return conflicts.every((c) => candidateRank < priorityRank(c.item.event_name, options));
+}
+
+export function describeScheduleItem(item: ScheduleItem): string {
+    const start = getLocalDateParts(new Date(item.start).toISOString(), item.timezone);
+    const end = getLocalDateParts(new Date(item.end).toISOString(), item.timezone);
+    const location = item.location ? ` @ ${item.location}` : "";
+    return `"${item.event_name}" ${start.date} ${start.time}-${end.time} ${item.timezone || ""}${location} [${item.status}]`;
+}
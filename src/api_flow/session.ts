@@ -0,0 +1,147 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { LumaClient } from "./lumaClient";
+
+const SESSION_FILE = path.resolve(__dirname, "../../luma_session.json");
+
+export interface SavedSession {
+    cookie_string: string;
+    saved_at: string; // ISO date
+}
+
+export interface SessionStore {
+    filePath: string;
+    session: SavedSession | null;
+}
+
+// Luma keeps the login in this cookie; without it every authenticated call fails
+const DEFAULT_AUTH_COOKIE = "luma.auth-session-key";
+
+// "unknown" when Luma could not be reached, the session may still be fine
+export type SessionStatus = "valid" | "expired" | "unknown";
+
+export interface LumaSessionUser {
+    api_id: string;
+    name: string | null;
+    email: string | null;
+}
+
+export interface SessionCheck {
+    status: SessionStatus;
+    user: LumaSessionUser | null; // Who the cookies belong to, when the check succeeded
+}
+
+export function readAuthCookieName(config: Record<string, string>): string {
+    return config["AUTH_COOKIE_NAME"] || DEFAULT_AUTH_COOKIE;
+}
+
+export function readSessionFile(config: Record<string, string>): string {
+    return config["SESSION_FILE"] || SESSION_FILE;
+}
+
+export async function loadSession(filePath: string = SESSION_FILE): Promise<SessionStore> {
+    try {
+        const data = await fs.readFile(filePath, "utf-8");
+        const session = JSON.parse(data) as SavedSession;
+        if (!session.cookie_string) {
+            return { filePath, session: null };
+        }
+        console.log(`Loaded saved Luma session from ${filePath} (saved ${session.saved_at}).`);
+        return { filePath, session };
+    } catch (error: any) {
+        if (error.code !== "ENOENT") {
+            console.error(`\x1b[31mCould not read saved session ${filePath}:\x1b[0m`, error);
+        }
+        return { filePath, session: null };
+    }
+}
+
+/**
+ * Writes the session cookies, readable by the current user only: they grant full access to
+ * the Luma account.
+ */
+export async function saveSession(store: SessionStore, cookieString: string): Promise<void> {
+    store.session = { cookie_string: cookieString, saved_at: new Date().toISOString() };
+    try {
+        await fs.writeFile(store.filePath, JSON.stringify(store.session, null, 2), { encoding: "utf8", mode: 0o600 });
+        console.log(`Luma session saved to ${store.filePath}.`);
+    } catch (error) {
+        console.error(`\x1b[31mError saving session ${store.filePath}:\x1b[0m`, error);
+    }
+}
+
+/**
+ * Asks Luma who the cookies belong to (SESSION_CHECK_URL, user/get-self by default).
+ * Luma answers 401/403 once the session has expired.
+ */
+export async function checkSession(
+    cookieString: string,
+    config: Record<string, string>
+): Promise<SessionCheck> {
+    const client = new LumaClient(cookieString, config);
+    try {
+        const data = await client.getSelf(config["SESSION_CHECK_URL"] || undefined);
+        const user = data?.user || data;
+        if (!user?.api_id) {
+            return { status: "expired", user: null };
+        }
+        const name = user.name || [user.first_name, user.last_name].filter(Boolean).join(" ") || null;
+        return { status: "valid", user: { api_id: user.api_id, name, email: user.email || null } };
+    } catch (error: any) {
+        const status = error.response?.status;
+        if (status === 401 || status === 403) {
+            return { status: "expired", user: null };
+        }
+        if (status) {
+            console.warn(`  Session check returned HTTP ${status}.`);
+        } else {
+            console.warn(`  Could not check the Luma session:`, error.message);
+        }
+        return { status: "unknown", user: null };
+    }
+}
+
+/**
+ * Saves the cookies Luma refreshed during the run, so the next run starts from them.
+ */
+export async function saveClientSession(client: LumaClient, config: Record<string, string>): Promise<void> {
+    if (client.cookiesChanged && client.hasCookies) {
+        await saveSession({ filePath: readSessionFile(config), session: null }, client.cookieString);
+    }
+}
+
+function findProfileValue(profile: Record<string, string>, keys: string[]): string | null {
+    const normalize = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, "");
+    const wanted = keys.map(normalize);
+    const key = Object.keys(profile).find((k) => wanted.includes(normalize(k)) && profile[k]);
+    return key ? profile[key].trim() : null;
+}
+
+const PROFILE_EMAIL_KEYS = ["Email", "E-mail"];
+const PROFILE_NAME_KEYS = ["Name", "Full Name"];
+
+// True when profile.txt says whose account it is (email or name), so the account must be checked
+export function profileNamesAccount(profile: Record<string, string>): boolean {
+    return !!(findProfileValue(profile, PROFILE_EMAIL_KEYS) || findProfileValue(profile, PROFILE_NAME_KEYS));
+}
+
+/**
+ * Compares the logged-in Luma account with profile.txt, by email when both are known, by name
+ * otherwise. Returns a description of the mismatch, or null when they agree or cannot be compared.
+ */
+export function findIdentityMismatch(user: LumaSessionUser, profile: Record<string, string>): string | null {
+    const profileEmail = findProfileValue(profile, PROFILE_EMAIL_KEYS);
+    if (user.email && profileEmail) {
+        return user.email.toLowerCase() === profileEmail.toLowerCase()
+            ? null
+            : `Luma account email ${user.email} differs from profile.txt email ${profileEmail}`;
+    }
+    const profileName = findProfileValue(profile, PROFILE_NAME_KEYS);
+    if (user.name && profileName) {
+        const normalizeName = (name: string) => name.toLowerCase().normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/\s+/g, " ").trim();
+        return normalizeName(user.name) === normalizeName(profileName)
+            ? null
+            : `Luma account name ${user.name} differs from profile.txt name ${profileName}`;
+    }
+    return null;
+}
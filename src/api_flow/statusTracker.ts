@@ -0,0 +1,192 @@
+import axios from "axios";
+import * as fs from "fs/promises";
+import * as path from "path";
+import { fetchEventDetails } from "./api_helper";
+import { LumaClient } from "./lumaClient";
+import { LumaCalendarEntry } from "./calendarApi";
+import { LedgerEntry, RegistrationLedger } from "./ledger";
+
+const MAIL_SPOOL_FILE = path.resolve(__dirname, "../../status_notifications.mbox");
+const JSON_CHANGES_FILE = path.resolve(__dirname, "../../status_changes.jsonl");
+
+export interface StatusTransition {
+    event_api_id: string;
+    event_name: string;
+    event_url: string;
+    from: string; // "unknown" if never checked before
+    to: string;
+    checked_at: string;
+}
+
+export type NotificationSink = "stdout" | "json" | "webhook" | "mail";
+
+// Ledger outcomes that mean we have (or had) a role on the event worth tracking
+const TRACKED_OUTCOMES = ["registered", "already_registered"];
+
+/**
+ * Re-checks our approval status for every registration in the ledger. Statuses come from
+ * the freshly fetched calendar entries when available, otherwise from the event's own API.
+ * The ledger entries are updated in memory and the transitions since the last check are
+ * returned; the caller saves the ledger once the transitions have been sent.
+ */
+export async function pollApprovalStatuses(
+    ledger: RegistrationLedger,
+    calendarEntries: LumaCalendarEntry[],
+    client: LumaClient
+): Promise<StatusTransition[]> {
+    const rolesByEventId = new Map<string, string>();
+    for (const entry of calendarEntries) {
+        if (entry.role?.approval_status) {
+            rolesByEventId.set(entry.event.api_id, entry.role.approval_status);
+        }
+    }
+
+    const tracked = Object.values(ledger.entries).filter((e) =>
+        TRACKED_OUTCOMES.includes(e.outcome)
+    );
+    console.log(`Checking approval status for ${tracked.length} event(s) from the ledger...`);
+
+    const transitions: StatusTransition[] = [];
+    for (const ledgerEntry of tracked) {
+        let status = rolesByEventId.get(ledgerEntry.event_api_id) || null;
+        if (!status) {
+            // Small delay to stay gentle with the API when checking many events one by one
+            await new Promise((resolve) => setTimeout(resolve, Math.floor(Math.random() * 1000) + 500));
+            const details = await fetchEventDetails(ledgerEntry.event_api_id, client);
+            status = details?.role?.approval_status || null;
+        }
+        if (!status) {
+            console.warn(`  Could not determine status for "${ledgerEntry.event_name}".`);
+            continue;
+        }
+
+        const checkedAt = new Date().toISOString();
+        const previous = ledgerEntry.approval_status || "unknown";
+        if (previous !== status) {
+            transitions.push({
+                event_api_id: ledgerEntry.event_api_id,
+                event_name: ledgerEntry.event_name,
+                event_url: ledgerEntry.event_url,
+                from: previous,
+                to: status,
+                checked_at: checkedAt,
+            });
+        }
+        updateLedgerStatus(ledgerEntry, status, checkedAt);
+    }
+
+    return transitions;
+}
+
+function updateLedgerStatus(entry: LedgerEntry, status: string, checkedAt: string): void {
+    entry.approval_status = status;
+    entry.status_checked_at = checkedAt;
+}
+
+export function readNotificationSinks(config: Record<string, string>): NotificationSink[] {
+    const sinks = (config["STATUS_NOTIFY"] || "stdout")
+        .split(",")
+        .map((s) => s.trim().toLowerCase())
+        .filter(Boolean);
+    return sinks.filter((s): s is NotificationSink =>
+        ["stdout", "json", "webhook", "mail"].includes(s)
+    );
+}
+
+function describeTransition(t: StatusTransition): string {
+    return `${t.event_name}: ${t.from} -> ${t.to} (${t.event_url})`;
+}
+
+async function notifyWebhook(transitions: StatusTransition[], config: Record<string, string>): Promise<boolean> {
+    const webhookUrl = config["STATUS_WEBHOOK_URL"];
+    if (!webhookUrl) {
+        console.error("\x1b[31mSTATUS_WEBHOOK_URL not found in config.txt.\x1b[0m");
+        return false;
+    }
+    try {
+        await axios.post(
+            webhookUrl,
+            {
+                text: transitions.map(describeTransition).join("\n"),
+                transitions,
+            },
+            { timeout: 15000 }
+        );
+        console.log(`Sent ${transitions.length} status change(s) to webhook.`);
+        return true;
+    } catch (error: any) {
+        console.error("\x1b[31mError sending status changes to webhook:\x1b[0m", error.message);
+        return false;
+    }
+}
+
+// One JSON object per line, appended to a file so the log lines on stdout never get mixed in
+async function notifyJsonFile(transitions: StatusTransition[], config: Record<string, string>): Promise<boolean> {
+    const jsonFile = config["STATUS_JSON_FILE"] || JSON_CHANGES_FILE;
+    try {
+        await fs.appendFile(jsonFile, transitions.map((t) => JSON.stringify(t) + "\n").join(""), "utf8");
+        console.log(`Appended ${transitions.length} status change(s) to ${jsonFile}.`);
+        return true;
+    } catch (error) {
+        console.error(`\x1b[31mError writing status changes to ${jsonFile}:\x1b[0m`, error);
+        return false;
+    }
+}
+
+// Appends one message to a local mbox file that any mail client can open
+async function notifyMailSpool(transitions: StatusTransition[], config: Record<string, string>): Promise<boolean> {
+    const spoolFile = config["STATUS_MAIL_SPOOL"] || MAIL_SPOOL_FILE;
+    const to = config["STATUS_MAIL_TO"] || "luma-bot@localhost";
+    const now = new Date();
+    const body = transitions
+        .map(describeTransition)
+        .map((line) => (line.startsWith("From ") ? `>${line}` : line))
+        .join("\n");
+    const message = [
+        `From luma-bot@localhost ${now.toUTCString()}`,
+        "From: luma-bot@localhost",
+        `To: ${to}`,
+        `Date: ${now.toUTCString()}`,
+        `Subject: Luma approval status: ${transitions.length} change(s)`,
+        "",
+        body,
+        "",
+        "",
+    ].join("\n");
+    try {
+        await fs.appendFile(spoolFile, message, "utf8");
+        console.log(`Appended status changes to mail spool ${spoolFile}.`);
+        return true;
+    } catch (error) {
+        console.error(`\x1b[31mError writing mail spool ${spoolFile}:\x1b[0m`, error);
+        return false;
+    }
+}
+
+/**
+ * Sends the transitions to every sink. Returns false if any sink failed, so the caller can
+ * leave the ledger as it was and report the same changes again on the next check.
+ */
+export async function notifyTransitions(
+    transitions: StatusTransition[],
+    sinks: NotificationSink[],
+    config: Record<string, string>
+): Promise<boolean> {
+    if (transitions.length === 0) {
+        return true;
+    }
+    let delivered = true;
+    for (const sink of sinks) {
+        if (sink === "stdout") {
+            console.log(`\n--- ${transitions.length} approval status change(s) ---`);
+            transitions.forEach((t) => console.log(`  - ${describeTransition(t)}`));
+        } else if (sink === "json") {
+            delivered = (await notifyJsonFile(transitions, config)) && delivered;
+        } else if (sink === "webhook") {
+            delivered = (await notifyWebhook(transitions, config)) && delivered;
+        } else if (sink === "mail") {
+            delivered = (await notifyMailSpool(transitions, config)) && delivered;
+        }
+    }
+    return delivered;
+}
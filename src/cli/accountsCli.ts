@@ -0,0 +1,54 @@
+import { readConfig } from '../api_flow/config';
+import { buildAccountConfig, loadAccounts, selectAccounts } from '../api_flow/accounts';
+import { ApiFlowSummary, mainApiFlow } from '../api_flow/main_api';
+
+// Usage: npm run accounts -- [--only alice,bob] [--list] [any npm run api option, e.g. --dry-run]
+// Runs the API flow for every account of accounts.json (or the --only ones), one after the other.
+async function main() {
+  const args = process.argv.slice(2);
+  const config = await readConfig();
+  const accounts = await loadAccounts(config['ACCOUNTS_FILE'] || undefined);
+
+  // Every account would import the same cookies, each account sets COOKIES_FILE in its own config
+  if (args.includes('--cookies')) {
+    throw new Error('--cookies applies to one account: set COOKIES_FILE in the account\'s "config" in accounts.json, or run npm run api -- --account <name> --cookies <file>.');
+  }
+
+  if (args.includes('--list')) {
+    accounts.forEach(a => console.log(`${a.name}${a.profile ? ` (profile: ${a.profile})` : ''}`));
+    return;
+  }
+
+  const onlyIndex = args.indexOf('--only');
+  const names = onlyIndex !== -1 ? (args[onlyIndex + 1] || '').split(',').map(n => n.trim()).filter(Boolean) : [];
+  const selected = selectAccounts(accounts, names);
+
+  const results: { name: string; summary: ApiFlowSummary | null }[] = [];
+  for (const account of selected) {
+    console.log(`\n=== Account ${account.name} (${results.length + 1}/${selected.length}) ===`);
+    const accountConfig = await buildAccountConfig(config, account);
+    const summary = await mainApiFlow(accountConfig);
+    results.push({ name: account.name, summary });
+    if (summary?.aborted) {
+      console.warn('Run aborted by user, the remaining accounts are skipped.');
+      break;
+    }
+  }
+
+  console.log('\n=== Results per account ===');
+  for (const { name, summary } of results) {
+    if (!summary) {
+      console.log(`  ${name}: did not run (login failed or error, see above)`);
+      continue;
+    }
+    console.log(
+      `  ${name}: ${summary.registered.length} registered, ${summary.parked.length} parked for review, ${summary.conflicts.length} schedule conflict(s), ${summary.failures.length} failure(s)`
+    );
+  }
+  console.log('Details are in accounts/<name>/registration_ledger.json (npm run history -- --account <name>).');
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
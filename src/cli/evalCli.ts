@@ -0,0 +1,109 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { readConfig, readProfile } from '../api_flow/config';
+import { prepareRegistrationAnswers } from '../api_flow/api_helper';
+import { resolveLLMProvider } from '../api_flow/llmProvider';
+import { printLLMUsageSummary, summarizeUsage, usageSince } from '../api_flow/llmUsage';
+import {
+  addScores,
+  CaseEvalResult,
+  emptyScore,
+  formatRatio,
+  loadGoldenDataset,
+  scoreCase,
+} from '../api_flow/answerEval';
+
+const DEFAULT_DATASET = path.resolve(__dirname, '../../eval_dataset.json');
+const DEFAULT_REPORT = path.resolve(__dirname, '../../eval_report.json');
+
+// Usage: npm run eval -- [dataset.json] [--provider groq] [--model llama-3.1-8b-instant] [--base-url http://...] [--report eval_report.json]
+// Provider flags override the LLM_ANSWERS_* settings of config.txt for this run only.
+// The answer memory is not loaded, so every answer comes from the profile or the LLM.
+async function main() {
+  const args = process.argv.slice(2);
+  const config = await readConfig();
+  let datasetPath = DEFAULT_DATASET;
+  let reportPath = DEFAULT_REPORT;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--provider') {
+      // The configured model and base URL belong to the configured provider, --model and --base-url may set new ones
+      delete config['LLM_ANSWERS_MODEL'];
+      delete config['LLM_ANSWERS_BASE_URL'];
+      config['LLM_ANSWERS_PROVIDER'] = args[++i];
+    } else if (args[i] === '--model') {
+      config['LLM_ANSWERS_MODEL'] = args[++i];
+    } else if (args[i] === '--base-url') {
+      config['LLM_ANSWERS_BASE_URL'] = args[++i];
+    } else if (args[i] === '--report') {
+      reportPath = path.resolve(args[++i]);
+    } else {
+      datasetPath = path.resolve(args[i]);
+    }
+  }
+
+  const provider = resolveLLMProvider(config, 'answers');
+  if (!provider) {
+    process.exit(1);
+  }
+
+  const dataset = await loadGoldenDataset(datasetPath);
+  const datasetProfile = dataset.profile || (await readProfile());
+  console.log(`Evaluating ${dataset.cases.length} case(s) from ${datasetPath} with ${provider.name} (${provider.model})...`);
+
+  const results: CaseEvalResult[] = [];
+  const promptVersions: Record<string, string> = {};
+  for (const goldenCase of dataset.cases) {
+    const startedAt = Date.now();
+    const prepared = await prepareRegistrationAnswers(
+      goldenCase.questions,
+      goldenCase.profile || datasetProfile,
+      goldenCase.event_name,
+      config,
+      goldenCase.event_context || null
+    );
+    Object.assign(promptVersions, prepared.prompt_versions);
+    results.push({
+      ...scoreCase(goldenCase, prepared.answers, prepared.confidence),
+      duration_ms: Date.now() - startedAt,
+      llm_usage: prepared.llm_usage,
+    });
+  }
+
+  const total = results.reduce((sum, r) => addScores(sum, r.score), emptyScore());
+
+  const versions = Object.entries(promptVersions).map(([name, version]) => `${name} v${version}`).join(', ');
+  console.log(`\n--- Evaluation results: ${provider.name} (${provider.model})${versions ? `, prompts: ${versions}` : ''} ---`);
+  for (const result of results) {
+    console.log(`\n${result.name} (${(result.duration_ms / 1000).toFixed(1)}s, ${result.llm_usage.total_tokens} tokens)`);
+    console.log(`  Exact match:       ${formatRatio(result.score.matched, result.score.comparable)}`);
+    console.log(`  Option validity:   ${formatRatio(result.score.valid, result.score.withOptions)}`);
+    console.log(`  Required coverage: ${formatRatio(result.score.covered, result.score.required)}`);
+    result.mismatches.forEach(m =>
+      console.log(`  - "${m.label}": got ${JSON.stringify(m.actual)}, expected ${m.expected.map(e => JSON.stringify(e)).join(' or ')}`)
+    );
+  }
+  console.log('\nOverall');
+  console.log(`  Exact match:       ${formatRatio(total.matched, total.comparable)}`);
+  console.log(`  Option validity:   ${formatRatio(total.valid, total.withOptions)}`);
+  console.log(`  Required coverage: ${formatRatio(total.covered, total.required)}`);
+  printLLMUsageSummary();
+
+  const report = {
+    dataset: datasetPath,
+    provider: provider.name,
+    model: provider.model,
+    prompt_versions: promptVersions,
+    evaluated_at: new Date().toISOString(),
+    total,
+    llm_usage: summarizeUsage(usageSince(0)),
+    cases: results,
+  };
+  await fs.writeFile(reportPath, JSON.stringify(report, null, 2), 'utf8');
+  console.log(`\nReport written to ${reportPath}.`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
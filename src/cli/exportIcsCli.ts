@@ -0,0 +1,16 @@
+import { readConfig } from '../api_flow/config';
+import { applyAccountArg } from '../api_flow/accounts';
+import { loadLedger } from '../api_flow/ledger';
+import { collectIcsEvents, writeIcsFile } from '../api_flow/icsExport';
+
+// Rebuilds the .ics file from the registration ledger only, without logging in or fetching calendars.
+async function main() {
+  const config = await applyAccountArg(await readConfig());
+  const ledger = await loadLedger(config['LEDGER_FILE'] || undefined, true);
+  await writeIcsFile(collectIcsEvents([], ledger), config['ICS_EXPORT_FILE'] || undefined);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
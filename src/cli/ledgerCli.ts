@@ -0,0 +1,41 @@
+import { readConfig } from '../api_flow/config';
+import { applyAccountArg } from '../api_flow/accounts';
+import { loadLedger, queryLedger, LedgerOutcome } from '../api_flow/ledger';
+
+// Usage: npm run history -- [--account <name>] [--outcome registered|already_registered|skipped|queued|conflict|failed] [search text]
+async function main() {
+  const args = process.argv.slice(2);
+  let outcome: LedgerOutcome | undefined;
+  const searchParts: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--outcome') {
+      outcome = args[++i] as LedgerOutcome;
+    } else if (args[i] === '--account') {
+      i++; // Handled by applyAccountArg
+    } else {
+      searchParts.push(args[i]);
+    }
+  }
+
+  const config = await applyAccountArg(await readConfig());
+  const ledger = await loadLedger(config['LEDGER_FILE'] || undefined);
+  const entries = queryLedger(ledger, { outcome, search: searchParts.join(' ') || undefined });
+
+  if (entries.length === 0) {
+    console.log('No matching ledger entries.');
+    return;
+  }
+
+  for (const entry of entries) {
+    const ticket = entry.ticket ? ` | Ticket: ${entry.ticket.name}` : '';
+    const reason = entry.reason ? ` | ${entry.reason}` : '';
+    console.log(`${entry.timestamp} | ${entry.outcome} | ${entry.event_name} (${entry.event_url})${ticket}${reason}`);
+  }
+  console.log(`\n${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}.`);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
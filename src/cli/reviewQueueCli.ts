@@ -0,0 +1,131 @@
+import { readConfig, readProfile } from '../api_flow/config';
+import { applyAccountArg } from '../api_flow/accounts';
+import { loadLedger, recordOutcome, LedgerEntry } from '../api_flow/ledger';
+import { loginWithSavedSession } from '../api_flow/login';
+import { LumaClient } from '../api_flow/lumaClient';
+import { saveClientSession } from '../api_flow/session';
+import { buildRegistrationPayload, extractApprovalStatus, submitRegistration } from '../api_flow/api_helper';
+import { reviewRegistrationAnswers } from '../api_flow/answerReview';
+import { loadAnswerMemory, rememberAnswers, saveAnswerMemory } from '../api_flow/answerMemory';
+import { loadReviewQueue, readMinConfidence, removeFromReviewQueue, ReviewQueueItem } from '../api_flow/reviewQueue';
+
+// Usage: npm run review-queue -- [--account <name>] [--list] [--discard <event_api_id>]
+// Without options, logs in and walks through the parked events: accept submits the registration,
+// skip keeps the event in the queue for later, quit stops.
+
+function describeItem(item: ReviewQueueItem): string {
+  const start = item.start_at ? ` | ${item.start_at}` : '';
+  return `${item.event_api_id} | ${item.event_name} (${item.event_url})${start} | ${item.low_confidence_question_ids.length} low-confidence answer(s)`;
+}
+
+// Keeps what the main run already knew about the event (dates, location, sources)
+function ledgerRecordFor(item: ReviewQueueItem, previous: LedgerEntry | undefined) {
+  const { timestamp, attempts, ...rest } = previous || ({} as LedgerEntry);
+  return {
+    ...rest,
+    event_api_id: item.event_api_id,
+    event_name: item.event_name,
+    event_url: item.event_url,
+    sources: item.sources,
+  };
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const config = await applyAccountArg(await readConfig());
+  const queue = await loadReviewQueue(config['REVIEW_QUEUE_FILE'] || undefined);
+  const items = Object.values(queue.items).sort((a, b) => (a.start_at || '').localeCompare(b.start_at || ''));
+
+  if (items.length === 0) {
+    console.log('The review queue is empty.');
+    return;
+  }
+
+  if (args.includes('--list')) {
+    items.forEach(item => console.log(describeItem(item)));
+    console.log(`\n${items.length} event(s) waiting for review.`);
+    return;
+  }
+
+  const ledger = await loadLedger(config['LEDGER_FILE'] || undefined);
+
+  const discardIndex = args.indexOf('--discard');
+  if (discardIndex !== -1) {
+    const item = queue.items[args[discardIndex + 1]];
+    if (!item) {
+      console.error(`No event ${args[discardIndex + 1]} in the review queue.`);
+      process.exit(1);
+    }
+    await removeFromReviewQueue(queue, item.event_api_id);
+    await recordOutcome(ledger, {
+      ...ledgerRecordFor(item, ledger.entries[item.event_api_id]),
+      outcome: 'skipped',
+      reason: 'Discarded from the review queue',
+      registration_answers: item.answers,
+      prompt_versions: item.prompt_versions,
+      llm_usage: item.llm_usage,
+    });
+    console.log(`Discarded ${item.event_name} from the review queue.`);
+    return;
+  }
+
+  const profile = await readProfile(config['PROFILE_FILE'] || undefined);
+  const loginResult = await loginWithSavedSession(config, profile);
+  if (!loginResult || !loginResult.cookieString) {
+    console.error('\x1b[31mLogin is required to submit registrations. Exiting.\x1b[0m');
+    process.exit(1);
+  }
+  const client = new LumaClient(loginResult.cookieString, config);
+  await loadAnswerMemory(config);
+  const minConfidence = readMinConfidence(config);
+
+  for (const item of items) {
+    const decision = await reviewRegistrationAnswers(
+      item.event_name,
+      item.event_url,
+      item.questions,
+      item.answers,
+      item.confidence,
+      minConfidence
+    );
+    if (decision.action === 'abort') {
+      console.log('Stopped. The remaining events stay in the queue.');
+      break;
+    }
+    if (decision.action === 'skip') {
+      console.log(`Kept ${item.event_name} in the queue.`);
+      continue;
+    }
+
+    const payload = buildRegistrationPayload(item.event_api_id, item.ticket, decision.answers, profile);
+    console.log(`Submitting registration for ${item.event_name}...`);
+    const submissionResult = await submitRegistration(payload, client, item.event_url);
+    if (!submissionResult) {
+      console.error(`\x1b[31mRegistration submission failed for ${item.event_name}. It stays in the queue.\x1b[0m`);
+      continue;
+    }
+
+    const approvalStatus = extractApprovalStatus(submissionResult);
+    await recordOutcome(ledger, {
+      ...ledgerRecordFor(item, ledger.entries[item.event_api_id]),
+      outcome: 'registered',
+      reason: undefined,
+      ticket: { api_id: item.ticket.api_id, name: item.ticket.name, type: item.ticket.type },
+      registration_answers: decision.answers,
+      prompt_versions: item.prompt_versions,
+      llm_usage: item.llm_usage,
+      response: submissionResult,
+      approval_status: approvalStatus || undefined,
+    });
+    rememberAnswers(item.questions, decision.answers);
+    await saveAnswerMemory();
+    await removeFromReviewQueue(queue, item.event_api_id);
+    console.log(`Registered for ${item.event_name}${approvalStatus ? ` (${approvalStatus})` : ''}.`);
+  }
+  await saveClientSession(client, config);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});
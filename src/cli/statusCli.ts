@@ -0,0 +1,43 @@
+import { readConfig, readProfile } from '../api_flow/config';
+import { applyAccountArg } from '../api_flow/accounts';
+import { loadLedger, saveLedger } from '../api_flow/ledger';
+import { loginWithSavedSession } from '../api_flow/login';
+import { LumaClient } from '../api_flow/lumaClient';
+import { saveClientSession } from '../api_flow/session';
+import { readEventSources, fetchEntriesFromSources } from '../api_flow/eventSources';
+import { pollApprovalStatuses, readNotificationSinks, notifyTransitions } from '../api_flow/statusTracker';
+
+// Re-checks the approval status of every registration in the ledger and reports what changed.
+async function main() {
+  const config = await applyAccountArg(await readConfig());
+  const ledger = await loadLedger(config['LEDGER_FILE'] || undefined);
+
+  const loginResult = await loginWithSavedSession(config, await readProfile(config['PROFILE_FILE'] || undefined));
+  if (!loginResult || !loginResult.cookieString) {
+    console.error('\x1b[31mLogin is required to read approval statuses. Exiting.\x1b[0m');
+    process.exit(1);
+  }
+
+  const client = new LumaClient(loginResult.cookieString, config);
+
+  // Calendar entries carry our role for many events at once, saving one request per event
+  const sourceUrls = readEventSources(config);
+  const entries = sourceUrls.length > 0 ? await fetchEntriesFromSources(sourceUrls, client) : [];
+
+  const transitions = await pollApprovalStatuses(ledger, entries, client);
+  await saveClientSession(client, config);
+  if (transitions.length === 0) {
+    console.log('No approval status changes since the last check.');
+  }
+  // The new statuses are saved only once every sink has them, so a failed notification is retried
+  if (!(await notifyTransitions(transitions, readNotificationSinks(config), config))) {
+    console.error('\x1b[31mSome status changes could not be sent. The ledger is left unchanged so they are sent again on the next check.\x1b[0m');
+    process.exit(1);
+  }
+  await saveLedger(ledger);
+}
+
+main().catch(err => {
+  console.error(err);
+  process.exit(1);
+});